@@ -30,6 +30,21 @@ export function withAcceptHeader(config: AxiosRequestConfig, accept: string): Ax
   };
 }
 
+/**
+ * Mark an Axios config as sending an XML body, preserving other headers.
+ * @param {AxiosRequestConfig} config - Base Axios config.
+ * @returns {AxiosRequestConfig} Config with an XML Content-Type header.
+ */
+export function withXmlBody(config: AxiosRequestConfig): AxiosRequestConfig {
+  return {
+    ...config,
+    headers: {
+      ...(config.headers ?? {}),
+      'Content-Type': 'application/xml',
+    },
+  };
+}
+
 /**
  * Unwrap a list payload safely, defaulting to an empty array.
  * @template T
@@ -1,7 +1,28 @@
-import type { AxiosRequestConfig } from 'axios';
-import type { JenkinsBuild, JenkinsItem } from '../../types/jenkins.js';
+import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import readline from 'readline';
+import type { Readable } from 'stream';
+import type {
+  JenkinsArtifact,
+  JenkinsArtifactContent,
+  JenkinsBuild,
+  JenkinsConsoleChunk,
+  JenkinsConsoleMatch,
+  JenkinsConsoleSearchResult,
+  JenkinsRunningBuild,
+  JenkinsTestReport,
+} from '../../types/jenkins.js';
+import { ValidationError } from '../../utils/validation.js';
+import { JenkinsNotFoundError } from '../errors.js';
 import type { JenkinsHttpClient } from '../http-client.js';
-import { buildConsolePath, buildPath, stopBuildPath } from '../paths.js';
+import {
+  buildArtifactPath,
+  buildConsolePath,
+  buildPath,
+  buildProgressiveTextPath,
+  buildTestReportPath,
+  parseBuildUrl,
+  stopBuildPath,
+} from '../paths.js';
 import { applyCrumbHeaders, unwrapList, withAcceptHeader } from './api-utils.js';
 
 /**
@@ -15,6 +36,94 @@ export interface BuildsApiOptions {
   addCrumbHeaders?: (config?: AxiosRequestConfig) => Promise<AxiosRequestConfig>;
 }
 
+/**
+ * Which part of the console log a chunk request reads.
+ * - offset: read forward from a byte offset (paging / following a live log)
+ * - head: read the beginning of the log
+ * - tail: read the end of the log
+ */
+export type ConsoleChunkMode = 'offset' | 'head' | 'tail';
+
+/**
+ * Options for incremental console reads.
+ */
+export interface ConsoleChunkOptions {
+  /**
+   * Byte offset to start from (offset mode only). Defaults to 0.
+   */
+  start?: number;
+  /**
+   * Read mode. Defaults to offset.
+   */
+  mode?: ConsoleChunkMode;
+  /**
+   * Maximum number of bytes returned. Defaults to 64 KiB.
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Filters for running builds.
+ */
+export interface RunningBuildFilters {
+  /** Node display name (case-insensitive) */
+  node?: string;
+  /** Regex tested against the job full name */
+  jobPattern?: string;
+}
+
+/**
+ * Options for searching console output.
+ */
+export interface ConsoleSearchOptions {
+  /**
+   * Number of lines to include before each match. Defaults to 2.
+   */
+  before?: number;
+  /**
+   * Number of lines to include after each match. Defaults to 2.
+   */
+  after?: number;
+  /**
+   * Stop after this many matches. Defaults to 20.
+   */
+  maxMatches?: number;
+  /**
+   * Match case-insensitively.
+   */
+  ignoreCase?: boolean;
+}
+
+const TEST_SUITES_TREE =
+  'suites[name,duration,cases[className,name,status,duration,skipped,errorDetails,errorStackTrace]]';
+const TEST_REPORT_TREE = `failCount,passCount,skipCount,totalCount,duration,${TEST_SUITES_TREE},childReports[child[number,url],result[failCount,passCount,skipCount,totalCount,duration,${TEST_SUITES_TREE}]]`;
+
+const CHANGE_ITEMS_TREE =
+  'items[commitId,id,author[fullName],authorEmail,msg,comment,timestamp,affectedPaths]';
+const BUILD_CHANGES_TREE = `number,url,result,changeSet[kind,${CHANGE_ITEMS_TREE}],changeSets[kind,${CHANGE_ITEMS_TREE}],culprits[fullName]`;
+
+/**
+ * Tree selector for build causes, shared with job-level build listings.
+ */
+export const BUILD_CAUSES_TREE =
+  'number,url,result,actions[causes[_class,shortDescription,userId,userName,upstreamProject,upstreamBuild,upstreamUrl,addr,note],downstreamBuilds[jobFullName,buildNumber]]';
+
+const DEFAULT_CONSOLE_CHUNK_BYTES = 64 * 1024;
+/** Extra bytes read past a limit so a cut can move back to a UTF-8 boundary */
+const UTF8_MARGIN_BYTES = 4;
+const DEFAULT_ARTIFACT_MAX_BYTES = 256 * 1024;
+const ARTIFACT_SIZE_CONCURRENCY = 4;
+const TEXT_CONTENT_TYPES =
+  /^(text\/|application\/(json|xml|javascript|x-yaml|yaml)|[^;]*\+(json|xml))/i;
+const DEFAULT_SEARCH_CONTEXT_LINES = 2;
+const DEFAULT_SEARCH_MAX_MATCHES = 20;
+
+interface ProgressiveText {
+  data: Buffer;
+  textSize: number;
+  moreData: boolean;
+}
+
 /**
  * Wrapper around Jenkins build APIs.
  * Target runtime: Node.js (ESM).
@@ -48,6 +157,45 @@ export class BuildsApi {
     return response.data;
   }
 
+  /**
+   * Get the SCM change sets and culprits of a build.
+   * Freestyle builds report a single changeSet; Pipeline builds report changeSets (one per SCM).
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsBuild>} Build with changeSet, changeSets and culprits.
+   */
+  async getBuildChanges(
+    fullName: string,
+    buildNumber: number,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsBuild> {
+    const response = await this.client.get<JenkinsBuild>(
+      `${buildPath(fullName, buildNumber)}/api/json?tree=${BUILD_CHANGES_TREE}`,
+      config
+    );
+    return response.data;
+  }
+
+  /**
+   * Get the causes (and triggered downstream builds) of a build.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsBuild>} Build with cause actions.
+   */
+  async getBuildCauses(
+    fullName: string,
+    buildNumber: number,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsBuild> {
+    const response = await this.client.get<JenkinsBuild>(
+      `${buildPath(fullName, buildNumber)}/api/json?tree=${BUILD_CAUSES_TREE}`,
+      config
+    );
+    return response.data;
+  }
+
   /**
    * Get build console output.
    * @param {string} fullName - Job full name.
@@ -68,29 +216,297 @@ export class BuildsApi {
   }
 
   /**
-   * Get all running builds (based on jobs' lastBuild).
+   * Get a slice of the build console output via logText/progressiveText.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {ConsoleChunkOptions} [options] - Offset, mode and byte limit.
    * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
-   * @returns {Promise<JenkinsBuild[]>} Running builds.
+   * @returns {Promise<JenkinsConsoleChunk>} Console text with the offset to continue from.
    */
-  async getRunningBuilds(config: AxiosRequestConfig = {}): Promise<JenkinsBuild[]> {
-    const response = await this.client.get<{ jobs?: JenkinsItem[] }>(
-      '/api/json?tree=jobs[fullName,lastBuild[number,url,building,timestamp,duration]]',
+  async getBuildConsoleChunk(
+    fullName: string,
+    buildNumber: number,
+    options: ConsoleChunkOptions = {},
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsConsoleChunk> {
+    const mode = options.mode ?? 'offset';
+    const maxBytes = options.maxBytes ?? DEFAULT_CONSOLE_CHUNK_BYTES;
+
+    let requestedStart = mode === 'offset' ? (options.start ?? 0) : 0;
+    if (mode === 'tail') {
+      const size = await this.getConsoleTextSize(fullName, buildNumber, config);
+      requestedStart = Math.max(0, size - maxBytes);
+    }
+
+    // A tail read keeps the end of the log, which may have grown since its size was read.
+    const progressive = await this.getProgressiveText(
+      fullName,
+      buildNumber,
+      requestedStart,
+      mode === 'tail' ? undefined : maxBytes + UTF8_MARGIN_BYTES,
       config
     );
-    const jobs = unwrapList(response.data.jobs);
-
-    const runningBuilds: JenkinsBuild[] = [];
-    for (const job of jobs) {
-      const lastBuild = job.lastBuild;
-      if (lastBuild?.building) {
-        runningBuilds.push({
-          ...lastBuild,
-          fullDisplayName: `${job.fullName} #${lastBuild.number}`,
-        });
+    const { data, textSize, moreData } = progressive;
+    // Jenkins restarts from 0 when the offset is past the end of the log.
+    const start = requestedStart > textSize ? 0 : requestedStart;
+
+    if (mode === 'tail') {
+      const from = data.length > maxBytes ? utf8Boundary(data, data.length - maxBytes, 1) : 0;
+      return {
+        text: data.subarray(from).toString('utf8'),
+        start: start + from,
+        nextOffset: textSize,
+        hasMoreData: moreData,
+        // Everything before the returned text was skipped.
+        truncated: start + from > 0,
+      };
+    }
+
+    const end = data.length > maxBytes ? utf8Boundary(data, maxBytes, -1) : data.length;
+    return {
+      text: data.subarray(0, end).toString('utf8'),
+      start,
+      nextOffset: start + end,
+      hasMoreData: moreData,
+      truncated: end < data.length,
+    };
+  }
+
+  /**
+   * Search build console output line by line without buffering the whole log.
+   * Stops reading once the match limit and its trailing context are satisfied.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {string} pattern - Regex pattern tested against each line.
+   * @param {ConsoleSearchOptions} [options] - Context, limit and case options.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsConsoleSearchResult>} Matching lines with context.
+   */
+  async searchBuildConsole(
+    fullName: string,
+    buildNumber: number,
+    pattern: string,
+    options: ConsoleSearchOptions = {},
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsConsoleSearchResult> {
+    const regex = compileSearchRegex(pattern, options.ignoreCase ?? false);
+    const beforeCount = options.before ?? DEFAULT_SEARCH_CONTEXT_LINES;
+    const afterCount = options.after ?? DEFAULT_SEARCH_CONTEXT_LINES;
+    const maxMatches = options.maxMatches ?? DEFAULT_SEARCH_MAX_MATCHES;
+
+    const response = await this.client.get<Readable>(buildConsolePath(fullName, buildNumber), {
+      ...withAcceptHeader(config, 'text/plain'),
+      responseType: 'stream',
+    });
+    const stream = response.data;
+    const lines = readline.createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+
+    const matches: JenkinsConsoleMatch[] = [];
+    const window: string[] = [];
+    let pending: JenkinsConsoleMatch[] = [];
+    let lineNumber = 0;
+
+    try {
+      for await (const line of lines) {
+        lineNumber++;
+
+        for (const match of pending) {
+          match.after.push(line);
+        }
+        pending = pending.filter((match) => match.after.length < afterCount);
+
+        if (matches.length < maxMatches && regex.test(line)) {
+          const match: JenkinsConsoleMatch = {
+            lineNumber,
+            line,
+            before: [...window],
+            after: [],
+          };
+          matches.push(match);
+          if (afterCount > 0) pending.push(match);
+        }
+
+        if (beforeCount > 0) {
+          window.push(line);
+          if (window.length > beforeCount) window.shift();
+        }
+
+        if (matches.length >= maxMatches && pending.length === 0) break;
       }
+    } finally {
+      lines.close();
+      stream.destroy();
     }
 
-    return runningBuilds;
+    return {
+      pattern,
+      matches,
+      linesScanned: lineNumber,
+      limitReached: matches.length >= maxMatches,
+    };
+  }
+
+  /**
+   * Get the JUnit test report of a build.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsTestReport | null>} Test report, or null when the build has none.
+   * @throws {JenkinsNotFoundError} When the job or build does not exist.
+   */
+  async getBuildTestReport(
+    fullName: string,
+    buildNumber: number,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsTestReport | null> {
+    try {
+      const response = await this.client.get<JenkinsTestReport>(
+        `${buildTestReportPath(fullName, buildNumber)}?tree=${TEST_REPORT_TREE}`,
+        config
+      );
+      return response.data;
+    } catch (error) {
+      if (!(error instanceof JenkinsNotFoundError)) throw error;
+      // The 404 only means "no report" if the build exists; otherwise this throws its own 404.
+      await this.client.get(`${buildPath(fullName, buildNumber)}/api/json?tree=number`, config);
+      return null;
+    }
+  }
+
+  /**
+   * List the archived artifacts of a build.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {boolean} [withSizes] - Resolve sizes with a HEAD request per artifact, a few at a time.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsArtifact[]>} Artifacts with relative paths.
+   */
+  async listBuildArtifacts(
+    fullName: string,
+    buildNumber: number,
+    withSizes: boolean = false,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsArtifact[]> {
+    const response = await this.client.get<{ artifacts?: JenkinsArtifact[] }>(
+      `${buildPath(fullName, buildNumber)}/api/json?tree=artifacts[displayPath,fileName,relativePath]`,
+      config
+    );
+    const artifacts = unwrapList(response.data.artifacts);
+    if (!withSizes) return artifacts;
+
+    const sized: JenkinsArtifact[] = new Array(artifacts.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < artifacts.length) {
+        const index = next++;
+        const artifact = artifacts[index];
+        const size = await this.getArtifactSize(
+          fullName,
+          buildNumber,
+          artifact.relativePath,
+          config
+        );
+        sized[index] = { ...artifact, size };
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(ARTIFACT_SIZE_CONCURRENCY, artifacts.length) }, worker)
+    );
+    return sized;
+  }
+
+  /**
+   * Get the content of a build artifact.
+   * Text is returned inline, binary content as base64, and files over maxBytes are not downloaded.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {string} relativePath - Artifact path relative to the archive root.
+   * @param {number} [maxBytes] - Size cap in bytes. Defaults to 256 KiB.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsArtifactContent>} Artifact content or a too-large marker.
+   */
+  async getBuildArtifact(
+    fullName: string,
+    buildNumber: number,
+    relativePath: string,
+    maxBytes: number = DEFAULT_ARTIFACT_MAX_BYTES,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsArtifactContent> {
+    const size = await this.getArtifactSize(fullName, buildNumber, relativePath, config);
+    if (size !== undefined && size > maxBytes) {
+      return { relativePath, size, tooLarge: true };
+    }
+
+    let response: AxiosResponse<ArrayBuffer>;
+    try {
+      response = await this.client.get<ArrayBuffer>(
+        buildArtifactPath(fullName, buildNumber, relativePath),
+        { ...config, responseType: 'arraybuffer', maxContentLength: maxBytes }
+      );
+    } catch (error) {
+      // Thrown by axios when the server did not announce a length and the body exceeds the cap.
+      if (axios.isAxiosError(error) && error.message.includes('maxContentLength')) {
+        return { relativePath, size, tooLarge: true };
+      }
+      throw error;
+    }
+
+    const data = Buffer.from(response.data);
+    const contentType = response.headers['content-type']
+      ? String(response.headers['content-type'])
+      : undefined;
+    const text = decodeText(data, contentType);
+
+    return {
+      relativePath,
+      size: data.length,
+      contentType,
+      encoding: text === null ? 'base64' : 'utf8',
+      content: text ?? data.toString('base64'),
+      tooLarge: false,
+    };
+  }
+
+  /**
+   * Get the work currently running on executors, across all nodes. Covers concurrent builds of
+   * one job, jobs inside folders, Pipeline runs on lightweight executors and the node blocks of
+   * Pipelines holding agent executors. Longest-running first.
+   * @param {RunningBuildFilters} [filters] - Node and job filters.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsRunningBuild[]>} Running builds.
+   */
+  async getRunningBuilds(
+    filters: RunningBuildFilters = {},
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsRunningBuild[]> {
+    const jobRegex = filters.jobPattern ? compileSearchRegex(filters.jobPattern, false) : null;
+    const node = filters.node?.toLowerCase();
+
+    const response = await this.client.get<{ computer?: ExecutorComputer[] }>(
+      `/computer/api/json?tree=computer[displayName,executors[${EXECUTOR_TREE}],oneOffExecutors[${EXECUTOR_TREE}]]`,
+      config
+    );
+
+    const now = Date.now();
+    const runningBuilds: JenkinsRunningBuild[] = [];
+    for (const computer of unwrapList(response.data.computer)) {
+      if (node && computer.displayName.toLowerCase() !== node) continue;
+
+      const executors = [
+        ...unwrapList(computer.executors).map((executor) => ({ executor, oneOff: false })),
+        ...unwrapList(computer.oneOffExecutors).map((executor) => ({ executor, oneOff: true })),
+      ];
+      for (const { executor, oneOff } of executors) {
+        const executable = executor.currentExecutable;
+        if (!executable) continue;
+
+        const build = toRunningBuild(computer.displayName, executor, executable, oneOff, now);
+        if (jobRegex && !jobRegex.test(build.fullName ?? build.displayName ?? '')) continue;
+        runningBuilds.push(build);
+      }
+    }
+
+    return runningBuilds.sort((a, b) => (b.elapsedMs ?? 0) - (a.elapsedMs ?? 0));
   }
 
   /**
@@ -108,4 +524,183 @@ export class BuildsApi {
     const requestConfig = await applyCrumbHeaders(config, this.addCrumbHeaders);
     await this.client.post(stopBuildPath(fullName, buildNumber), {}, requestConfig);
   }
+
+  private async getArtifactSize(
+    fullName: string,
+    buildNumber: number,
+    relativePath: string,
+    config: AxiosRequestConfig
+  ): Promise<number | undefined> {
+    const response = await this.client.request({
+      ...config,
+      method: 'HEAD',
+      url: buildArtifactPath(fullName, buildNumber, relativePath),
+    });
+    const length = Number.parseInt(String(response.headers?.['content-length'] ?? ''), 10);
+    return Number.isNaN(length) ? undefined : length;
+  }
+
+  /**
+   * Read progressiveText from a byte offset. With a limit, the response is streamed and
+   * closed once that many bytes have arrived, so a small read of a huge log stays small.
+   */
+  private async getProgressiveText(
+    fullName: string,
+    buildNumber: number,
+    start: number,
+    limit: number | undefined,
+    config: AxiosRequestConfig
+  ): Promise<ProgressiveText> {
+    const response = await this.client.get<Readable>(
+      buildProgressiveTextPath(fullName, buildNumber, start),
+      { ...withAcceptHeader(config, 'text/plain'), responseType: 'stream' }
+    );
+    const stream = response.data;
+
+    const chunks: Buffer[] = [];
+    let length = 0;
+    try {
+      for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        chunks.push(buffer);
+        length += buffer.length;
+        if (limit !== undefined && length >= limit) break;
+      }
+    } finally {
+      stream.destroy();
+    }
+
+    const data = Buffer.concat(chunks);
+    const textSize = Number.parseInt(String(response.headers?.['x-text-size'] ?? ''), 10);
+
+    return {
+      data: limit !== undefined && data.length > limit ? data.subarray(0, limit) : data,
+      textSize: Number.isNaN(textSize) ? start + data.length : textSize,
+      moreData: String(response.headers?.['x-more-data']).toLowerCase() === 'true',
+    };
+  }
+
+  /**
+   * Read the current log size from the X-Text-Size header without downloading the body.
+   */
+  private async getConsoleTextSize(
+    fullName: string,
+    buildNumber: number,
+    config: AxiosRequestConfig
+  ): Promise<number> {
+    const response = await this.client.get<Readable>(
+      buildProgressiveTextPath(fullName, buildNumber, 0),
+      { ...withAcceptHeader(config, 'text/plain'), responseType: 'stream' }
+    );
+    response.data.destroy();
+
+    const size = Number.parseInt(String(response.headers?.['x-text-size'] ?? ''), 10);
+    if (Number.isNaN(size)) {
+      throw new Error('Jenkins did not return the console size (X-Text-Size header missing).');
+    }
+    return size;
+  }
+}
+
+const EXECUTOR_TREE =
+  'number,progress,likelyStuck,currentExecutable[_class,number,url,fullDisplayName,timestamp,estimatedDuration]';
+
+interface ExecutorExecutable {
+  _class?: string;
+  number?: number;
+  url?: string;
+  fullDisplayName?: string;
+  timestamp?: number;
+  estimatedDuration?: number;
+}
+
+interface Executor {
+  number: number;
+  progress?: number;
+  likelyStuck?: boolean;
+  currentExecutable?: ExecutorExecutable | null;
+}
+
+interface ExecutorComputer {
+  displayName: string;
+  executors?: Executor[];
+  oneOffExecutors?: Executor[];
+}
+
+function toRunningBuild(
+  node: string,
+  executor: Executor,
+  executable: ExecutorExecutable,
+  oneOff: boolean,
+  now: number
+): JenkinsRunningBuild {
+  const parsed = executable.url ? parseBuildUrl(executable.url) : undefined;
+  const elapsedMs = executable.timestamp ? Math.max(0, now - executable.timestamp) : undefined;
+  // Jenkins reports -1 when there is no estimate (e.g. the first build of a job).
+  const estimatedDurationMs =
+    executable.estimatedDuration && executable.estimatedDuration > 0
+      ? executable.estimatedDuration
+      : undefined;
+  const progress =
+    executor.progress !== undefined && executor.progress >= 0 ? executor.progress : undefined;
+
+  return {
+    kind: executable._class?.includes('PlaceholderExecutable') ? 'pipeline_step' : 'build',
+    fullName: parsed?.fullName,
+    buildNumber: executable.number ?? parsed?.buildNumber,
+    displayName: executable.fullDisplayName,
+    url: executable.url,
+    node,
+    executor: executor.number,
+    oneOff,
+    startedAt: executable.timestamp,
+    elapsedMs,
+    estimatedDurationMs,
+    estimatedRemainingMs:
+      estimatedDurationMs !== undefined && elapsedMs !== undefined
+        ? Math.max(0, estimatedDurationMs - elapsedMs)
+        : undefined,
+    progress,
+    likelyStuck: executor.likelyStuck,
+  };
+}
+
+function compileSearchRegex(pattern: string, ignoreCase: boolean): RegExp {
+  try {
+    return new RegExp(pattern, ignoreCase ? 'i' : '');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid regex pattern';
+    throw new ValidationError(`Invalid regex pattern: ${message}`);
+  }
+}
+
+/**
+ * Decode artifact bytes as UTF-8 text when the content type or content looks textual.
+ * Returns null for binary content.
+ */
+function decodeText(data: Buffer, contentType?: string): string | null {
+  if (data.includes(0)) return null;
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    if (contentType && !TEXT_CONTENT_TYPES.test(contentType)) {
+      // Jenkins often serves unknown extensions as octet-stream; trust valid UTF-8 instead.
+      return contentType.startsWith('application/octet-stream') ? text : null;
+    }
+    return text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move a byte index so it does not split a UTF-8 sequence.
+ * Steps forward (step = 1) or backward (step = -1), keeping the original index
+ * when no boundary is found.
+ */
+function utf8Boundary(data: Buffer, index: number, step: 1 | -1): number {
+  let boundary = index;
+  while (boundary > 0 && boundary < data.length && (data[boundary] & 0xc0) === 0x80) {
+    boundary += step;
+  }
+  return boundary > 0 && boundary < data.length ? boundary : index;
 }
@@ -1,8 +1,18 @@
 import type { AxiosRequestConfig } from 'axios';
-import type { JenkinsItem } from '../../types/jenkins.js';
+import type { JenkinsBuild, JenkinsItem } from '../../types/jenkins.js';
+import { ValidationError } from '../../utils/validation.js';
 import type { JenkinsHttpClient } from '../http-client.js';
-import { buildTriggerPath, jobConfigPath, jobPath } from '../paths.js';
-import { applyCrumbHeaders, unwrapList, withAcceptHeader } from './api-utils.js';
+import {
+  buildTriggerPath,
+  createItemPath,
+  jobConfigPath,
+  jobDeletePath,
+  jobPath,
+  jobRenamePath,
+  splitFullName,
+} from '../paths.js';
+import { applyCrumbHeaders, unwrapList, withAcceptHeader, withXmlBody } from './api-utils.js';
+import { BUILD_CAUSES_TREE } from './builds-api.js';
 
 /**
  * Item query filters for client-side filtering.
@@ -13,6 +23,39 @@ export interface QueryItemsParams {
   colorPattern?: string;
 }
 
+/**
+ * Where to start listing items and how deep to descend into folders.
+ */
+export interface ItemTreeOptions {
+  /** Folder full name; the Jenkins root when omitted */
+  folder?: string;
+  /** Folder levels to include; 1 lists only the direct children (default: 1) */
+  depth?: number;
+}
+
+/**
+ * Listing options of one page of items.
+ */
+export interface ItemPageOptions extends ItemTreeOptions {
+  /** Keep only matching items; folders are still searched */
+  filter?: (item: JenkinsItem) => boolean;
+}
+
+/**
+ * Position of an item in a depth-first listing: its index among its siblings at each folder
+ * level below the root, e.g. [4, 0] is the first child of the fifth top-level item.
+ */
+export type ItemPosition = number[];
+
+/**
+ * One page of a depth-first item listing.
+ */
+export interface ItemsPage {
+  items: JenkinsItem[];
+  /** Position of the first item of the next page; absent on the last page */
+  next?: ItemPosition;
+}
+
 /**
  * Options for Items API helpers.
  */
@@ -44,11 +87,91 @@ export class ItemsApi {
    * @returns {Promise<JenkinsItem[]>} List of items.
    */
   async getAllItems(config: AxiosRequestConfig = {}): Promise<JenkinsItem[]> {
-    const response = await this.client.get<{ jobs?: JenkinsItem[] }>(
-      '/api/json?tree=jobs[name,url,color,_class,fullName,buildable]',
+    return await this.getItemTree({}, config);
+  }
+
+  /**
+   * Get the direct children of a folder, or the top-level items when no folder is given.
+   * @param {string} [parent] - Folder full name.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsItem[]>} Child items.
+   */
+  async getChildItems(parent?: string, config: AxiosRequestConfig = {}): Promise<JenkinsItem[]> {
+    return await this.getItemTree({ folder: parent }, config);
+  }
+
+  /**
+   * Get the items below a folder down to a depth, in one request with a nested tree query.
+   * Folders come before their contents (depth-first).
+   * @param {ItemTreeOptions} [options] - Root folder and depth.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsItem[]>} Flattened items.
+   */
+  async getItemTree(
+    options: ItemTreeOptions = {},
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsItem[]> {
+    const response = await this.client.get<{ jobs?: ItemNode[] }>(
+      `${folderPath(options.folder)}/api/json?tree=${itemTreeQuery(options.depth ?? 1)}`,
       config
     );
-    return unwrapList(response.data.jobs);
+    return flattenItems(unwrapList(response.data.jobs));
+  }
+
+  /**
+   * Get one page of items below a folder, walking folders depth-first.
+   * Each folder's children are requested with the tree range syntax, so a page only fetches
+   * the items up to the start of the next page (plus the folders it passes through).
+   * @param {ItemPosition} from - Position of the first item ([] for the beginning).
+   * @param {number} limit - Maximum number of items.
+   * @param {ItemPageOptions} [options] - Root folder, depth and filter.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<ItemsPage>} Items and the position of the next page.
+   */
+  async getItemsPage(
+    from: ItemPosition,
+    limit: number,
+    options: ItemPageOptions = {},
+    config: AxiosRequestConfig = {}
+  ): Promise<ItemsPage> {
+    const { depth = 1, filter } = options;
+    // Collect one extra item to learn whether another page exists and where it starts.
+    const wanted = limit + 1;
+    const found: Array<{ item: JenkinsItem; position: ItemPosition }> = [];
+
+    const walk = async (
+      folder: string | undefined,
+      level: number,
+      prefix: ItemPosition,
+      resume: ItemPosition
+    ): Promise<void> => {
+      let index = resume[0] ?? 0;
+      // A longer resume position continues inside its first item, which is already listed.
+      let inside = resume.slice(1);
+      while (found.length < wanted) {
+        const nodes = await this.getItemRange(folder, index, index + wanted, level < depth, config);
+        for (const { jobs, ...item } of nodes) {
+          const position = [...prefix, index];
+          index += 1;
+          if (inside.length === 0 && (!filter || filter(item))) {
+            found.push({ item, position });
+            if (found.length === wanted) return;
+          }
+          if (unwrapList(jobs).length > 0) {
+            await walk(item.fullName, level + 1, position, inside);
+            if (found.length === wanted) return;
+          }
+          inside = [];
+        }
+        if (nodes.length < wanted) return;
+      }
+    };
+
+    await walk(options.folder, 1, [], from);
+    return {
+      items: found.slice(0, limit).map(({ item }) => item),
+      next: found[limit]?.position,
+    };
   }
 
   /**
@@ -59,7 +182,7 @@ export class ItemsApi {
    */
   async getItem(fullName: string, config: AxiosRequestConfig = {}): Promise<JenkinsItem> {
     const response = await this.client.get<JenkinsItem>(
-      `${jobPath(fullName)}/api/json?tree=name,url,color,_class,fullName,buildable,builds[number,url,result,building,timestamp,duration],lastBuild[number,url,result],lastSuccessfulBuild[number,url,result],lastFailedBuild[number,url,result]`,
+      `${jobPath(fullName)}/api/json?tree=name,url,color,_class,fullName,buildable,builds[number,url,result,building,timestamp,duration],lastBuild[number,url,result,building],lastSuccessfulBuild[number,url,result],lastFailedBuild[number,url,result]`,
       config
     );
     return response.data;
@@ -80,19 +203,145 @@ export class ItemsApi {
   }
 
   /**
-   * Query items with client-side filters.
-   * @param {QueryItemsParams} params - Regex filters.
+   * Get the projects configured to be triggered after this job.
+   * @param {string} fullName - Job full name.
    * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
-   * @returns {Promise<JenkinsItem[]>} Filtered items.
+   * @returns {Promise<JenkinsItem[]>} Downstream projects (empty for Pipeline jobs).
    */
-  async queryItems(
-    params: QueryItemsParams,
+  async getDownstreamProjects(
+    fullName: string,
     config: AxiosRequestConfig = {}
   ): Promise<JenkinsItem[]> {
+    const response = await this.client.get<{ downstreamProjects?: JenkinsItem[] }>(
+      `${jobPath(fullName)}/api/json?tree=downstreamProjects[name,url,fullName,_class]`,
+      config
+    );
+    return unwrapList(response.data.downstreamProjects);
+  }
+
+  /**
+   * Get the most recent builds of a job with their causes.
+   * @param {string} fullName - Job full name.
+   * @param {number} limit - Maximum number of builds.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsBuild[]>} Recent builds with cause actions.
+   */
+  async getRecentBuildCauses(
+    fullName: string,
+    limit: number,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsBuild[]> {
+    const response = await this.client.get<{ builds?: JenkinsBuild[] }>(
+      `${jobPath(fullName)}/api/json?tree=builds[${BUILD_CAUSES_TREE}]{0,${limit}}`,
+      config
+    );
+    return unwrapList(response.data.builds);
+  }
+
+  /**
+   * Create a job or folder from config XML.
+   * @param {string} fullName - Full name of the new item (parent folders must exist).
+   * @param {string} configXml - Item config.xml content.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when created.
+   */
+  async createItem(
+    fullName: string,
+    configXml: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<void> {
+    const { parent, name } = splitFullName(fullName);
+    const requestConfig = await applyCrumbHeaders(
+      withXmlBody({ ...config, params: { name } }),
+      this.addCrumbHeaders
+    );
+    await this.client.post(createItemPath(parent), configXml, requestConfig);
+  }
+
+  /**
+   * Replace the config.xml of an item.
+   * @param {string} fullName - Job full name.
+   * @param {string} configXml - New config.xml content.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when updated.
+   */
+  async updateItemConfig(
+    fullName: string,
+    configXml: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<void> {
+    const requestConfig = await applyCrumbHeaders(withXmlBody(config), this.addCrumbHeaders);
+    await this.client.post(jobConfigPath(fullName), configXml, requestConfig);
+  }
+
+  /**
+   * Copy an existing item to a new full name.
+   * @param {string} sourceFullName - Full name of the item to copy.
+   * @param {string} fullName - Full name of the new item (parent folders must exist).
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when copied.
+   */
+  async copyItem(
+    sourceFullName: string,
+    fullName: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<void> {
+    const { parent, name } = splitFullName(fullName);
+    const requestConfig = await applyCrumbHeaders(
+      // A leading slash makes "from" resolve from the root instead of the target folder.
+      { ...config, params: { name, mode: 'copy', from: `/${sourceFullName}` } },
+      this.addCrumbHeaders
+    );
+    await this.client.post(createItemPath(parent), {}, requestConfig);
+  }
+
+  /**
+   * Rename an item within its folder.
+   * @param {string} fullName - Job full name.
+   * @param {string} newName - New item name (without folder).
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when renamed.
+   */
+  async renameItem(
+    fullName: string,
+    newName: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<void> {
+    const requestConfig = await applyCrumbHeaders(
+      { ...config, params: { newName } },
+      this.addCrumbHeaders
+    );
+    await this.client.post(jobRenamePath(fullName), {}, requestConfig);
+  }
+
+  /**
+   * Delete an item (and, for folders, everything inside it).
+   * @param {string} fullName - Job full name.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when deleted.
+   */
+  async deleteItem(fullName: string, config: AxiosRequestConfig = {}): Promise<void> {
+    const requestConfig = await applyCrumbHeaders(config, this.addCrumbHeaders);
+    await this.client.post(jobDeletePath(fullName), {}, requestConfig);
+  }
+
+  /**
+   * Query one page of items with client-side filters.
+   * @param {QueryItemsParams & ItemTreeOptions} params - Regex filters, root folder and depth.
+   * @param {ItemPosition} from - Position to search from ([] for the beginning).
+   * @param {number} limit - Maximum number of matching items.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<ItemsPage>} Matching items and the position of the next page.
+   */
+  async queryItems(
+    params: QueryItemsParams & ItemTreeOptions,
+    from: ItemPosition,
+    limit: number,
+    config: AxiosRequestConfig = {}
+  ): Promise<ItemsPage> {
     const regex = compileItemRegexes(params);
-    const items = await this.getAllItems(config);
 
-    return items.filter((item) => {
+    const filter = (item: JenkinsItem): boolean => {
       if (regex.classRegex && !regex.classRegex.test(item._class)) return false;
       if (regex.fullNameRegex && !regex.fullNameRegex.test(item.fullName)) return false;
       if (regex.colorRegex) {
@@ -100,7 +349,28 @@ export class ItemsApi {
         if (!regex.colorRegex.test(item.color)) return false;
       }
       return true;
-    });
+    };
+
+    return await this.getItemsPage(from, limit, { ...params, filter }, config);
+  }
+
+  /**
+   * Get a range of a folder's children. With `withChildren`, each folder carries at most one
+   * child so the walk knows whether to descend.
+   */
+  private async getItemRange(
+    folder: string | undefined,
+    start: number,
+    end: number,
+    withChildren: boolean,
+    config: AxiosRequestConfig
+  ): Promise<ItemNode[]> {
+    const fields = withChildren ? `${ITEM_FIELDS},jobs[name]{0,1}` : ITEM_FIELDS;
+    const response = await this.client.get<{ jobs?: ItemNode[] }>(
+      `${folderPath(folder)}/api/json?tree=jobs[${fields}]{${start},${end}}`,
+      config
+    );
+    return unwrapList(response.data.jobs);
   }
 
   /**
@@ -137,6 +407,40 @@ export class ItemsApi {
   }
 }
 
+const ITEM_FIELDS = 'name,url,color,_class,fullName,buildable';
+
+/**
+ * Item as returned by a nested tree query.
+ */
+type ItemNode = JenkinsItem & { jobs?: ItemNode[] };
+
+function folderPath(folder?: string): string {
+  return folder ? jobPath(folder) : '';
+}
+
+/**
+ * Build a tree query that nests `jobs` for each folder level,
+ * e.g. depth 2 gives jobs[fields,jobs[fields]].
+ */
+function itemTreeQuery(depth: number): string {
+  let query = `jobs[${ITEM_FIELDS}]`;
+  for (let level = 1; level < depth; level++) {
+    query = `jobs[${ITEM_FIELDS},${query}]`;
+  }
+  return query;
+}
+
+function flattenItems(nodes: ItemNode[]): JenkinsItem[] {
+  const items: JenkinsItem[] = [];
+  const visit = (node: ItemNode): void => {
+    const { jobs, ...item } = node;
+    items.push(item);
+    for (const child of unwrapList(jobs)) visit(child);
+  };
+  for (const node of nodes) visit(node);
+  return items;
+}
+
 function compileItemRegexes(params: QueryItemsParams): {
   classRegex: RegExp | null;
   fullNameRegex: RegExp | null;
@@ -152,7 +456,7 @@ function compileItemRegexes(params: QueryItemsParams): {
     if (params.colorPattern) colorRegex = new RegExp(params.colorPattern);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Invalid regex pattern';
-    throw new Error(`Invalid regex pattern: ${message}`);
+    throw new ValidationError(`Invalid regex pattern: ${message}`);
   }
 
   return { classRegex, fullNameRegex, colorRegex };
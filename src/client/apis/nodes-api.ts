@@ -1,8 +1,34 @@
 import type { AxiosRequestConfig } from 'axios';
-import type { JenkinsNode } from '../../types/jenkins.js';
+import type {
+  JenkinsLabelLoad,
+  JenkinsLabelLoadWindow,
+  JenkinsNode,
+  JenkinsNodeStats,
+} from '../../types/jenkins.js';
 import type { JenkinsHttpClient } from '../http-client.js';
-import { nodeConfigPath, nodePath } from '../paths.js';
-import { unwrapList, withAcceptHeader } from './api-utils.js';
+import {
+  createNodePath,
+  labelPath,
+  nodeConfigPath,
+  nodeDeletePath,
+  nodeDisconnectPath,
+  nodeLaunchPath,
+  nodeOfflineCausePath,
+  nodePath,
+  nodeToggleOfflinePath,
+} from '../paths.js';
+import { applyCrumbHeaders, unwrapList, withAcceptHeader, withXmlBody } from './api-utils.js';
+
+/**
+ * Options for Nodes API helpers.
+ */
+export interface NodesApiOptions {
+  /**
+   * Optional helper to add CSRF crumb headers.
+   * When provided, it is applied to write operations.
+   */
+  addCrumbHeaders?: (config?: AxiosRequestConfig) => Promise<AxiosRequestConfig>;
+}
 
 /**
  * Wrapper around Jenkins node APIs.
@@ -11,9 +37,11 @@ import { unwrapList, withAcceptHeader } from './api-utils.js';
  */
 export class NodesApi {
   private readonly client: JenkinsHttpClient;
+  private readonly addCrumbHeaders?: NodesApiOptions['addCrumbHeaders'];
 
-  constructor(client: JenkinsHttpClient) {
+  constructor(client: JenkinsHttpClient, options: NodesApiOptions = {}) {
     this.client = client;
+    this.addCrumbHeaders = options.addCrumbHeaders;
   }
 
   /**
@@ -53,4 +81,328 @@ export class NodesApi {
     );
     return response.data;
   }
+
+  /**
+   * Get executor, label, monitor and offline details of all nodes, or of one node.
+   * @param {string} [nodeName] - Node name; all nodes when omitted.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsNodeStats[]>} Node statistics.
+   */
+  async getNodeStats(
+    nodeName?: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsNodeStats[]> {
+    if (nodeName) {
+      const response = await this.client.get<StatsComputer>(
+        `${nodePath(nodeName)}?tree=${NODE_STATS_TREE}`,
+        config
+      );
+      return [toNodeStats(response.data)];
+    }
+
+    const response = await this.client.get<{ computer?: StatsComputer[] }>(
+      `/computer/api/json?tree=computer[${NODE_STATS_TREE}]`,
+      config
+    );
+    return unwrapList(response.data.computer).map(toNodeStats);
+  }
+
+  /**
+   * Get executor capacity and queue length of a label.
+   * @param {string} label - Label name or expression.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsLabelLoad>} Label load.
+   */
+  async getLabelLoad(label: string, config: AxiosRequestConfig = {}): Promise<JenkinsLabelLoad> {
+    const response = await this.client.get<LabelResponse>(
+      `${labelPath(label)}?tree=${LABEL_TREE}`,
+      config
+    );
+    const data = response.data;
+    const load = {
+      sec10: toLoadWindow(data.loadStatistics, 'sec10'),
+      min: toLoadWindow(data.loadStatistics, 'min'),
+      hour: toLoadWindow(data.loadStatistics, 'hour'),
+    };
+    const hour = load.hour;
+
+    return {
+      label: data.name ?? label,
+      description: data.description || undefined,
+      offline: data.offline,
+      nodes: unwrapList(data.nodes).map((node) => node.nodeName || 'built-in'),
+      executors: {
+        total: data.totalExecutors ?? 0,
+        busy: data.busyExecutors ?? 0,
+        idle: data.idleExecutors ?? 0,
+      },
+      load,
+      queuePerExecutor:
+        hour && hour.onlineExecutors > 0 ? hour.queueLength / hour.onlineExecutors : undefined,
+      underProvisioned: hour !== undefined && hour.queueLength >= 1 && hour.availableExecutors < 1,
+    };
+  }
+
+  /**
+   * Mark a node temporarily offline so it takes no new builds. Running builds continue.
+   * Jenkins only offers a toggle, so the current state is read first; for a node that is
+   * already offline only the reason is replaced.
+   * @param {string} nodeName - Node name.
+   * @param {string} reason - Offline reason shown in Jenkins.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<boolean>} True when the node was online before.
+   */
+  async setNodeOffline(
+    nodeName: string,
+    reason: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<boolean> {
+    const node = await this.getNode(nodeName, config);
+    const requestConfig = await applyCrumbHeaders(
+      { ...config, params: { offlineMessage: reason } },
+      this.addCrumbHeaders
+    );
+
+    if (node.temporarilyOffline) {
+      await this.client.post(nodeOfflineCausePath(nodeName), {}, requestConfig);
+      return false;
+    }
+    await this.client.post(nodeToggleOfflinePath(nodeName), {}, requestConfig);
+    return true;
+  }
+
+  /**
+   * Bring a temporarily offline node back online.
+   * @param {string} nodeName - Node name.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<boolean>} True when the node was temporarily offline before.
+   */
+  async setNodeOnline(nodeName: string, config: AxiosRequestConfig = {}): Promise<boolean> {
+    const node = await this.getNode(nodeName, config);
+    if (!node.temporarilyOffline) return false;
+
+    const requestConfig = await applyCrumbHeaders(config, this.addCrumbHeaders);
+    await this.client.post(nodeToggleOfflinePath(nodeName), {}, requestConfig);
+    return true;
+  }
+
+  /**
+   * Launch (reconnect) the agent of a node.
+   * @param {string} nodeName - Node name.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when the launch has been requested.
+   */
+  async launchNodeAgent(nodeName: string, config: AxiosRequestConfig = {}): Promise<void> {
+    const requestConfig = await applyCrumbHeaders(config, this.addCrumbHeaders);
+    await this.client.post(nodeLaunchPath(nodeName), {}, requestConfig);
+  }
+
+  /**
+   * Disconnect the agent of a node. Builds running on it are aborted.
+   * @param {string} nodeName - Node name.
+   * @param {string} [reason] - Disconnect reason shown in Jenkins.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when disconnected.
+   */
+  async disconnectNode(
+    nodeName: string,
+    reason?: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<void> {
+    const requestConfig = await applyCrumbHeaders(
+      reason ? { ...config, params: { offlineMessage: reason } } : config,
+      this.addCrumbHeaders
+    );
+    await this.client.post(nodeDisconnectPath(nodeName), {}, requestConfig);
+  }
+
+  /**
+   * Create a permanent agent from config XML.
+   * Jenkins has no endpoint that creates a node from XML, so a placeholder agent is created
+   * first and its config.xml is then replaced. The placeholder is removed if that fails.
+   * @param {string} nodeName - Name of the new node.
+   * @param {string} configXml - Node config.xml content.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when created.
+   */
+  async createNode(
+    nodeName: string,
+    configXml: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<void> {
+    const createConfig = await applyCrumbHeaders(
+      {
+        ...config,
+        params: { name: nodeName, type: PLACEHOLDER_TYPE, json: placeholderForm(nodeName) },
+      },
+      this.addCrumbHeaders
+    );
+    await this.client.post(createNodePath(), {}, createConfig);
+
+    try {
+      const updateConfig = await applyCrumbHeaders(withXmlBody(config), this.addCrumbHeaders);
+      await this.client.post(nodeConfigPath(nodeName), configXml, updateConfig);
+    } catch (error) {
+      await this.deleteNode(nodeName, config).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a node.
+   * @param {string} nodeName - Node name.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<void>} Resolves when deleted.
+   */
+  async deleteNode(nodeName: string, config: AxiosRequestConfig = {}): Promise<void> {
+    const requestConfig = await applyCrumbHeaders(config, this.addCrumbHeaders);
+    await this.client.post(nodeDeletePath(nodeName), {}, requestConfig);
+  }
+}
+
+const NODE_STATS_TREE =
+  'displayName,description,numExecutors,offline,temporarilyOffline,offlineCauseReason,' +
+  'offlineCause[_class],assignedLabels[name],executors[idle],monitorData[*[*]]';
+
+const LOAD_SERIES = ['queueLength', 'busyExecutors', 'onlineExecutors', 'availableExecutors'];
+const LABEL_TREE =
+  'name,description,offline,nodes[nodeName],totalExecutors,busyExecutors,idleExecutors,' +
+  `loadStatistics[${LOAD_SERIES.map((series) => `${series}[sec10[latest],min[latest],hour[latest]]`).join(',')}]`;
+
+type MonitorData = Record<string, Record<string, unknown> | string | null | undefined>;
+
+interface StatsComputer {
+  displayName: string;
+  description?: string;
+  numExecutors?: number;
+  offline: boolean;
+  temporarilyOffline?: boolean;
+  offlineCauseReason?: string;
+  offlineCause?: { _class?: string } | null;
+  assignedLabels?: { name: string }[];
+  executors?: { idle?: boolean }[];
+  monitorData?: MonitorData;
+}
+
+type TimeSeries = Partial<Record<'sec10' | 'min' | 'hour', { latest?: number }>>;
+
+interface LabelResponse {
+  name?: string;
+  description?: string;
+  offline?: boolean;
+  nodes?: { nodeName?: string }[];
+  totalExecutors?: number;
+  busyExecutors?: number;
+  idleExecutors?: number;
+  loadStatistics?: Partial<Record<keyof JenkinsLabelLoadWindow, TimeSeries>>;
+}
+
+function toNodeStats(computer: StatsComputer): JenkinsNodeStats {
+  const executors = unwrapList(computer.executors);
+  const busy = executors.filter((executor) => executor.idle === false).length;
+  const total = computer.numExecutors ?? executors.length;
+  const monitors = computer.monitorData ?? {};
+  const offlineCauseClass = computer.offlineCause?._class;
+
+  return {
+    displayName: computer.displayName,
+    description: computer.description || undefined,
+    offline: computer.offline,
+    temporarilyOffline: computer.temporarilyOffline,
+    offlineCause:
+      computer.offline && (offlineCauseClass || computer.offlineCauseReason)
+        ? {
+            type: offlineCauseClass?.split(/[.$]/).pop(),
+            reason: computer.offlineCauseReason || undefined,
+          }
+        : undefined,
+    executors: { total, busy, idle: Math.max(0, total - busy) },
+    // Every node also carries a label with its own name.
+    labels: unwrapList(computer.assignedLabels)
+      .map((label) => label.name)
+      .filter((name) => name !== computer.displayName && name !== 'built-in'),
+    monitors: {
+      architecture: monitorString(monitors, 'ArchitectureMonitor'),
+      diskSpace: toSpace(monitor(monitors, 'DiskSpaceMonitor')),
+      tempSpace: toSpace(monitor(monitors, 'TemporarySpaceMonitor')),
+      memory: toMemory(monitor(monitors, 'SwapSpaceMonitor')),
+      responseTimeMs: monitorNumber(monitor(monitors, 'ResponseTimeMonitor'), 'average'),
+      clockDifferenceMs: monitorNumber(monitor(monitors, 'ClockMonitor'), 'diff'),
+    },
+  };
+}
+
+function monitor(monitors: MonitorData, name: string): Record<string, unknown> | undefined {
+  const value = monitors[`hudson.node_monitors.${name}`];
+  return value && typeof value === 'object' ? value : undefined;
+}
+
+function monitorString(monitors: MonitorData, name: string): string | undefined {
+  const value = monitors[`hudson.node_monitors.${name}`];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function monitorNumber(data: Record<string, unknown> | undefined, key: string): number | undefined {
+  const value = data?.[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+function toSpace(
+  data: Record<string, unknown> | undefined
+): { path?: string; freeBytes: number } | undefined {
+  const freeBytes = monitorNumber(data, 'size');
+  if (freeBytes === undefined) return undefined;
+  return { path: typeof data?.path === 'string' ? data.path : undefined, freeBytes };
+}
+
+function toMemory(
+  data: Record<string, unknown> | undefined
+): JenkinsNodeStats['monitors']['memory'] {
+  const availablePhysicalBytes = monitorNumber(data, 'availablePhysicalMemory');
+  const totalPhysicalBytes = monitorNumber(data, 'totalPhysicalMemory');
+  if (availablePhysicalBytes === undefined || totalPhysicalBytes === undefined) return undefined;
+  return {
+    availablePhysicalBytes,
+    totalPhysicalBytes,
+    availableSwapBytes: monitorNumber(data, 'availableSwapSpace') ?? 0,
+    totalSwapBytes: monitorNumber(data, 'totalSwapSpace') ?? 0,
+  };
+}
+
+function toLoadWindow(
+  statistics: LabelResponse['loadStatistics'],
+  window: keyof TimeSeries
+): JenkinsLabelLoadWindow | undefined {
+  const value = (series: keyof JenkinsLabelLoadWindow): number | undefined =>
+    statistics?.[series]?.[window]?.latest;
+  const queueLength = value('queueLength');
+  if (queueLength === undefined) return undefined;
+  return {
+    queueLength,
+    busyExecutors: value('busyExecutors') ?? 0,
+    onlineExecutors: value('onlineExecutors') ?? 0,
+    availableExecutors: value('availableExecutors') ?? 0,
+  };
+}
+
+const PLACEHOLDER_TYPE = 'hudson.slaves.DumbSlave';
+
+/**
+ * Form data Jenkins requires to create a permanent agent; replaced by the config XML.
+ * Exclusive mode and an inbound launcher keep the placeholder from taking builds or
+ * connecting in the meantime.
+ */
+function placeholderForm(nodeName: string): string {
+  return JSON.stringify({
+    name: nodeName,
+    nodeDescription: '',
+    numExecutors: '1',
+    remoteFS: '/tmp',
+    labelString: '',
+    mode: 'EXCLUSIVE',
+    type: PLACEHOLDER_TYPE,
+    retentionStrategy: { 'stapler-class': 'hudson.slaves.RetentionStrategy$Always' },
+    nodeProperties: { 'stapler-class-bag': 'true' },
+    launcher: { 'stapler-class': 'hudson.slaves.JNLPLauncher' },
+  });
 }
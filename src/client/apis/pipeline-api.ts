@@ -0,0 +1,145 @@
+import type { AxiosRequestConfig } from 'axios';
+import type {
+  JenkinsPipelineFlowNode,
+  JenkinsPipelineNodeLog,
+  JenkinsPipelineRun,
+  JenkinsPipelineStage,
+  JenkinsPipelineStageDetail,
+} from '../../types/jenkins.js';
+import type { JenkinsHttpClient } from '../http-client.js';
+import { pipelineDescribePath, pipelineNodePath } from '../paths.js';
+import { unwrapList } from './api-utils.js';
+
+/**
+ * Wrapper around the Pipeline Stage View (wfapi) APIs.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+export class PipelineApi {
+  private readonly client: JenkinsHttpClient;
+
+  constructor(client: JenkinsHttpClient) {
+    this.client = client;
+  }
+
+  /**
+   * Get a pipeline run with its stages.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsPipelineRun>} Pipeline run and stages.
+   */
+  async getPipelineRun(
+    fullName: string,
+    buildNumber: number,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsPipelineRun> {
+    const response = await this.client.get<JenkinsPipelineRun>(
+      pipelineDescribePath(fullName, buildNumber),
+      config
+    );
+    const run = response.data;
+
+    return {
+      id: run.id,
+      name: run.name,
+      status: run.status,
+      startTimeMillis: run.startTimeMillis,
+      durationMillis: run.durationMillis,
+      pauseDurationMillis: run.pauseDurationMillis,
+      stages: unwrapList(run.stages).map(toStage),
+    };
+  }
+
+  /**
+   * Get a pipeline stage with its flow nodes.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {string} stageId - Stage flow node ID.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsPipelineStageDetail>} Stage and its flow nodes.
+   */
+  async getPipelineStage(
+    fullName: string,
+    buildNumber: number,
+    stageId: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsPipelineStageDetail> {
+    const response = await this.client.get<JenkinsPipelineStageDetail>(
+      pipelineNodePath(fullName, buildNumber, stageId, 'describe'),
+      config
+    );
+    const stage = response.data;
+
+    return {
+      ...toStage(stage),
+      stageFlowNodes: unwrapList(stage.stageFlowNodes).map(toFlowNode),
+    };
+  }
+
+  /**
+   * Get the log of a single pipeline flow node.
+   * @param {string} fullName - Job full name.
+   * @param {number} buildNumber - Build number.
+   * @param {string} nodeId - Flow node ID.
+   * @param {AxiosRequestConfig} [config] - Optional Axios config overrides.
+   * @returns {Promise<JenkinsPipelineNodeLog>} Node log as plain text.
+   */
+  async getPipelineNodeLog(
+    fullName: string,
+    buildNumber: number,
+    nodeId: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<JenkinsPipelineNodeLog> {
+    const response = await this.client.get<JenkinsPipelineNodeLog>(
+      pipelineNodePath(fullName, buildNumber, nodeId, 'log'),
+      config
+    );
+    const log = response.data;
+
+    return {
+      nodeId: log.nodeId ?? nodeId,
+      nodeStatus: log.nodeStatus,
+      length: log.length,
+      hasMore: log.hasMore,
+      text: stripConsoleMarkup(log.text ?? ''),
+    };
+  }
+}
+
+function toStage(stage: JenkinsPipelineStage): JenkinsPipelineStage {
+  return {
+    id: stage.id,
+    name: stage.name,
+    status: stage.status,
+    startTimeMillis: stage.startTimeMillis,
+    durationMillis: stage.durationMillis,
+    pauseDurationMillis: stage.pauseDurationMillis,
+    ...(stage.error ? { error: stage.error } : {}),
+  };
+}
+
+function toFlowNode(node: JenkinsPipelineFlowNode): JenkinsPipelineFlowNode {
+  return {
+    id: node.id,
+    name: node.name,
+    status: node.status,
+    parameterDescription: node.parameterDescription,
+    startTimeMillis: node.startTimeMillis,
+    durationMillis: node.durationMillis,
+    pauseDurationMillis: node.pauseDurationMillis,
+  };
+}
+
+/**
+ * wfapi logs are rendered as HTML (console notes, escaped entities); reduce them to plain text.
+ */
+function stripConsoleMarkup(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
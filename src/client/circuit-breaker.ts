@@ -0,0 +1,96 @@
+/**
+ * Circuit breaker for a Jenkins instance.
+ * Target runtime: Node.js (ESM).
+ *
+ * After `threshold` consecutive availability failures the circuit opens and requests fail
+ * fast for `cooldownMs`. The first request after the cooldown is let through as a trial:
+ * success closes the circuit, failure opens it again.
+ */
+
+import { JenkinsUnavailableError } from './errors.js';
+
+/**
+ * Circuit breaker settings.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit; 0 disables the breaker */
+  threshold: number;
+  /** How long the circuit stays open, in milliseconds */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  threshold: 5,
+  cooldownMs: 30_000,
+};
+
+/**
+ * Tracks consecutive failures of one Jenkins instance.
+ */
+export class CircuitBreaker {
+  private readonly url: string;
+  private readonly options: CircuitBreakerOptions;
+  private failures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(url: string, options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {
+    this.url = url;
+    this.options = options;
+  }
+
+  /**
+   * Reserve a request slot.
+   * @throws {JenkinsUnavailableError} While the circuit is open or a trial request is running.
+   */
+  acquire(): void {
+    if (this.options.threshold <= 0 || this.failures < this.options.threshold) return;
+
+    if (Date.now() < this.openUntil || this.trialInFlight) {
+      throw new JenkinsUnavailableError(
+        this.url,
+        this.failures,
+        Math.max(this.openUntil, Date.now())
+      );
+    }
+    this.trialInFlight = true;
+  }
+
+  /**
+   * Record a request that reached Jenkins, whatever its status.
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Give back a slot without an outcome, e.g. when the request was cancelled.
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a request that failed because Jenkins was unavailable.
+   */
+  recordFailure(): void {
+    this.failures += 1;
+    this.trialInFlight = false;
+    if (this.options.threshold > 0 && this.failures >= this.options.threshold) {
+      this.openUntil = Date.now() + this.options.cooldownMs;
+    }
+  }
+
+  /**
+   * Whether requests are currently refused.
+   */
+  isOpen(): boolean {
+    return (
+      this.options.threshold > 0 &&
+      this.failures >= this.options.threshold &&
+      Date.now() < this.openUntil
+    );
+  }
+}
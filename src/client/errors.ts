@@ -0,0 +1,179 @@
+import axios, { type AxiosRequestConfig } from 'axios';
+
+/**
+ * Typed Jenkins errors thrown by JenkinsHttpClient.
+ * Target runtime: Node.js (ESM).
+ *
+ * Every HTTP error response, timeout and network failure is converted into a JenkinsError
+ * subclass so callers can branch on the kind of failure instead of parsing messages.
+ * The original axios error is kept as `cause`.
+ */
+
+/**
+ * Request details attached to a Jenkins error.
+ */
+export interface JenkinsErrorDetails {
+  status?: number;
+  method?: string;
+  path?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failed Jenkins requests. Also used for statuses without a dedicated class.
+ */
+export class JenkinsError extends Error {
+  readonly status?: number;
+  readonly method?: string;
+  readonly path?: string;
+
+  constructor(message: string, details: JenkinsErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.path = details.path;
+  }
+}
+
+/**
+ * 404: the job, build, node or file does not exist.
+ */
+export class JenkinsNotFoundError extends JenkinsError {}
+
+/**
+ * 401 (bad credentials) or 403 (missing permission).
+ */
+export class JenkinsAuthError extends JenkinsError {}
+
+/**
+ * 403 caused by a missing or stale CSRF crumb.
+ */
+export class JenkinsCsrfError extends JenkinsError {}
+
+/**
+ * Jenkins did not answer within the configured timeout.
+ */
+export class JenkinsTimeoutError extends JenkinsError {}
+
+/**
+ * 5xx from Jenkins or the proxy in front of it.
+ */
+export class JenkinsServerError extends JenkinsError {}
+
+/**
+ * The connection could not be established or was dropped.
+ */
+export class JenkinsConnectionError extends JenkinsError {}
+
+/**
+ * Thrown instead of sending a request while the circuit breaker is open.
+ */
+export class JenkinsUnavailableError extends JenkinsError {
+  /** When the next trial request will be allowed (epoch milliseconds) */
+  readonly retryAt: number;
+
+  constructor(url: string, failures: number, retryAt: number) {
+    const seconds = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+    super(
+      `Jenkins unavailable at ${url}: ${failures} consecutive requests failed; not sending requests for ${seconds}s`
+    );
+    this.retryAt = retryAt;
+  }
+}
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+const CONNECTION_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ERR_NETWORK',
+];
+
+/**
+ * Convert an axios error into a typed Jenkins error.
+ * Errors that are not HTTP, timeout or connection failures (e.g. cancellation or
+ * maxContentLength) are returned unchanged.
+ * @param {unknown} error - Error thrown by axios.
+ * @param {AxiosRequestConfig} config - Config of the failed request.
+ * @param {string} baseUrl - Jenkins URL, used in connection error messages.
+ * @returns {unknown} A JenkinsError, or the original error.
+ */
+export function toJenkinsError(
+  error: unknown,
+  config: AxiosRequestConfig,
+  baseUrl: string
+): unknown {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) return error;
+
+  const method = (config.method ?? 'GET').toUpperCase();
+  // The tree query makes messages unreadable and says nothing about what failed.
+  const path = config.url?.split('?')[0];
+  const request = `${method} ${path}`;
+  const details = { method, path, cause: error };
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    if (error.code && TIMEOUT_CODES.includes(error.code)) {
+      const timeoutMs = config.timeout ?? error.config?.timeout;
+      return new JenkinsTimeoutError(
+        `Jenkins did not respond to ${request}${timeoutMs ? ` within ${timeoutMs / 1000}s` : ''}; retry later or increase JENKINS_TIMEOUT`,
+        details
+      );
+    }
+    if (error.code && CONNECTION_CODES.includes(error.code)) {
+      return new JenkinsConnectionError(
+        `Cannot connect to Jenkins at ${baseUrl} (${error.code}); check the URL and that Jenkins is running`,
+        details
+      );
+    }
+    return error;
+  }
+
+  const withStatus = { ...details, status };
+  const statusText = error.response?.statusText ? ` ${error.response.statusText}` : '';
+
+  if (status === 404) {
+    return new JenkinsNotFoundError(`Jenkins returned 404 Not Found for ${request}`, withStatus);
+  }
+  if (status === 401) {
+    return new JenkinsAuthError(
+      `Jenkins rejected the credentials (401${statusText}) for ${request}; check the username and API token`,
+      withStatus
+    );
+  }
+  if (status === 403) {
+    if (isCrumbRejection(error.response?.data)) {
+      return new JenkinsCsrfError(
+        `Jenkins rejected the CSRF crumb (403) for ${request}; the crumb has been refreshed, retry the request`,
+        withStatus
+      );
+    }
+    return new JenkinsAuthError(
+      `Jenkins denied access (403${statusText}) to ${request}; the user lacks the required permission`,
+      withStatus
+    );
+  }
+  if (status >= 500) {
+    return new JenkinsServerError(
+      `Jenkins returned ${status}${statusText} for ${request}; Jenkins or its proxy may be restarting or overloaded`,
+      withStatus
+    );
+  }
+  return new JenkinsError(`Jenkins returned ${status}${statusText} for ${request}`, withStatus);
+}
+
+function isCrumbRejection(data: unknown): boolean {
+  const body = Buffer.isBuffer(data)
+    ? data.toString('utf8')
+    : data instanceof ArrayBuffer
+      ? Buffer.from(data).toString('utf8')
+      : typeof data === 'string'
+        ? data
+        : '';
+  return /no valid crumb/i.test(body);
+}
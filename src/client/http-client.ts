@@ -2,6 +2,19 @@ import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse
 import http from 'http';
 import https from 'https';
 import type { JenkinsConfig } from '../types/jenkins.js';
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+} from './circuit-breaker.js';
+import { JenkinsCsrfError, toJenkinsError } from './errors.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableError,
+  isTransientError,
+  type RetryOptions,
+} from './retry.js';
 
 /**
  * Structured logger used by the HTTP client.
@@ -37,6 +50,18 @@ export interface HttpClientOptions {
    * Optional logger for diagnostic output.
    */
   logger?: HttpClientLogger;
+  /**
+   * Retry settings; maxRetries defaults to JenkinsConfig.maxRetries.
+   */
+  retry?: Partial<RetryOptions>;
+  /**
+   * Circuit breaker settings; defaults to JenkinsConfig.circuitBreakerThreshold/Cooldown.
+   */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /**
+   * Called when Jenkins rejects a CSRF crumb, e.g. to drop a cached crumb.
+   */
+  onCsrfError?: () => void;
 }
 
 /**
@@ -47,9 +72,28 @@ export interface HttpClientOptions {
 export class JenkinsHttpClient {
   private readonly client: AxiosInstance;
   private readonly logger?: HttpClientLogger;
+  private readonly retry: RetryOptions;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly baseUrl: string;
+  private readonly onCsrfError?: () => void;
 
   constructor(config: JenkinsConfig, options: HttpClientOptions = {}) {
     this.logger = options.logger;
+    this.baseUrl = config.url;
+    this.onCsrfError = options.onCsrfError;
+    this.retry = {
+      ...DEFAULT_RETRY_OPTIONS,
+      maxRetries: config.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+      ...options.retry,
+    };
+    this.circuitBreaker = new CircuitBreaker(config.url, {
+      threshold: config.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_OPTIONS.threshold,
+      cooldownMs:
+        config.circuitBreakerCooldown !== undefined
+          ? config.circuitBreakerCooldown * 1000
+          : DEFAULT_CIRCUIT_BREAKER_OPTIONS.cooldownMs,
+      ...options.circuitBreaker,
+    });
 
     const axiosConfig: AxiosRequestConfig = {
       baseURL: config.url,
@@ -66,6 +110,7 @@ export class JenkinsHttpClient {
         keepAlive: options.keepAlive ?? true,
         maxSockets: options.maxSockets ?? 10,
         rejectUnauthorized: config.verifySSL !== false,
+        ca: config.ca,
       }),
     };
 
@@ -90,15 +135,48 @@ export class JenkinsHttpClient {
 
   /**
    * Low-level request helper. Throws on non-2xx responses.
+   * Transient failures are retried with backoff (see retry.ts), and requests fail fast with
+   * JenkinsUnavailableError while the circuit breaker is open.
    * @param {AxiosRequestConfig} config - Axios request config.
    * @returns {Promise<AxiosResponse<T>>} Axios response.
+   * @throws {JenkinsError} Typed error for HTTP, timeout and connection failures (see errors.ts).
    */
   async request<T = unknown>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    try {
-      return await this.client.request<T>(config);
-    } catch (error) {
-      this.logAxiosError(error, config);
-      throw error;
+    const method = (config.method ?? 'GET').toUpperCase();
+
+    for (let attempt = 0; ; attempt++) {
+      this.circuitBreaker.acquire();
+
+      try {
+        const response = await this.client.request<T>(config);
+        this.circuitBreaker.recordSuccess();
+        return response;
+      } catch (error) {
+        this.recordOutcome(error);
+
+        const delay =
+          attempt < this.retry.maxRetries &&
+          !config.signal?.aborted &&
+          isRetryableError(error, method)
+            ? getRetryDelay(error, attempt, this.retry)
+            : undefined;
+        if (delay === undefined) {
+          this.logAxiosError(error, config);
+          const jenkinsError = toJenkinsError(error, config, this.baseUrl);
+          if (jenkinsError instanceof JenkinsCsrfError) this.onCsrfError?.();
+          throw jenkinsError;
+        }
+
+        this.logger?.warn('Retrying Jenkins HTTP request', {
+          method,
+          url: config.url,
+          attempt: attempt + 1,
+          delayMs: delay,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+          code: axios.isAxiosError(error) ? error.code : undefined,
+        });
+        await sleep(delay, config.signal);
+      }
     }
   }
 
@@ -132,6 +210,17 @@ export class JenkinsHttpClient {
     return this.client;
   }
 
+  private recordOutcome(error: unknown): void {
+    if (isTransientError(error)) {
+      this.circuitBreaker.recordFailure();
+    } else if (axios.isAxiosError(error) && error.response) {
+      // Jenkins answered (e.g. 404), so it is available.
+      this.circuitBreaker.recordSuccess();
+    } else {
+      this.circuitBreaker.release();
+    }
+  }
+
   private logAxiosError(error: unknown, config: AxiosRequestConfig): void {
     if (!this.logger) return;
 
@@ -155,3 +244,17 @@ export class JenkinsHttpClient {
     });
   }
 }
+
+function sleep(ms: number, signal: AxiosRequestConfig['signal']): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener?.('abort', done);
+
+    // An aborted signal makes the next attempt fail with axios' CanceledError.
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener?.('abort', done);
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,88 @@
+import { sanitizeUrl } from '../config/jenkins-config.js';
+import type { JenkinsInstanceConfig, ToolPolicy } from '../types/jenkins.js';
+import { JenkinsClient } from './jenkins.js';
+
+/**
+ * Public description of a configured Jenkins instance (no credentials).
+ */
+export interface JenkinsInstanceInfo {
+  name: string;
+  url: string;
+  default: boolean;
+  authenticated: boolean;
+}
+
+/**
+ * Named Jenkins instances, one JenkinsClient each.
+ *
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+export class JenkinsInstances {
+  private readonly clients = new Map<string, JenkinsClient>();
+  private readonly configs: JenkinsInstanceConfig[];
+  private readonly defaultName: string;
+
+  constructor(configs: JenkinsInstanceConfig[], defaultName: string) {
+    if (configs.length === 0) {
+      throw new Error('At least one Jenkins instance must be configured');
+    }
+
+    this.configs = configs;
+    this.defaultName = defaultName;
+
+    for (const config of configs) {
+      this.clients.set(config.name, new JenkinsClient(config));
+    }
+
+    if (!this.clients.has(defaultName)) {
+      throw new Error(`Default Jenkins instance "${defaultName}" is not configured`);
+    }
+  }
+
+  /**
+   * Get the client for an instance, or the default instance when no name is given.
+   * @param {string} [name] - Instance name.
+   * @returns {JenkinsClient} Jenkins API client.
+   * @throws {Error} When the instance is unknown.
+   */
+  get(name?: string): JenkinsClient {
+    const client = this.clients.get(name ?? this.defaultName);
+    if (!client) {
+      throw new Error(
+        `Invalid instance "${name}"; configured instances: ${[...this.clients.keys()].join(', ')}`
+      );
+    }
+    return client;
+  }
+
+  /**
+   * Tool policy configured for one instance, applied on top of the server policy.
+   * @param {string} [name] - Instance name; defaults to the default instance.
+   * @returns {ToolPolicy} Instance tool policy (empty when none is configured).
+   */
+  getToolPolicy(name?: string): ToolPolicy {
+    const instanceName = name ?? this.defaultName;
+    return this.configs.find((config) => config.name === instanceName)?.toolPolicy ?? {};
+  }
+
+  /**
+   * Name of the default instance.
+   */
+  getDefaultName(): string {
+    return this.defaultName;
+  }
+
+  /**
+   * Describe all configured instances without exposing credentials.
+   * @returns {JenkinsInstanceInfo[]} Instance descriptions.
+   */
+  list(): JenkinsInstanceInfo[] {
+    return this.configs.map((config) => ({
+      name: config.name,
+      url: sanitizeUrl(config.url),
+      default: config.name === this.defaultName,
+      authenticated: Boolean(config.username && config.password),
+    }));
+  }
+}
@@ -1,13 +1,36 @@
 import type {
+  JenkinsArtifact,
+  JenkinsArtifactContent,
   JenkinsBuild,
   JenkinsConfig,
+  JenkinsConsoleChunk,
+  JenkinsConsoleSearchResult,
   JenkinsItem,
+  JenkinsLabelLoad,
   JenkinsNode,
+  JenkinsNodeStats,
+  JenkinsPipelineNodeLog,
+  JenkinsPipelineRun,
+  JenkinsPipelineStageDetail,
   JenkinsQueueItem,
+  JenkinsRunningBuild,
+  JenkinsTestReport,
 } from '../types/jenkins.js';
-import { BuildsApi } from './apis/builds-api.js';
-import { ItemsApi } from './apis/items-api.js';
+import {
+  BuildsApi,
+  type ConsoleChunkOptions,
+  type ConsoleSearchOptions,
+  type RunningBuildFilters,
+} from './apis/builds-api.js';
+import {
+  type ItemPosition,
+  ItemsApi,
+  type ItemsPage,
+  type ItemTreeOptions,
+  type QueryItemsParams,
+} from './apis/items-api.js';
 import { NodesApi } from './apis/nodes-api.js';
+import { PipelineApi } from './apis/pipeline-api.js';
 import { QueueApi } from './apis/queue-api.js';
 import { type CrumbIssuer, createCrumbIssuer } from './crumb-issuer.js';
 import { JenkinsHttpClient } from './http-client.js';
@@ -26,17 +49,22 @@ export class JenkinsClient {
   private readonly buildsApi: BuildsApi;
   private readonly nodesApi: NodesApi;
   private readonly queueApi: QueueApi;
+  private readonly pipelineApi: PipelineApi;
 
   constructor(config: JenkinsConfig) {
-    this.httpClient = new JenkinsHttpClient(config);
+    // A rejected crumb is usually stale (e.g. after a restart); fetch a new one next time.
+    this.httpClient = new JenkinsHttpClient(config, {
+      onCsrfError: () => this.crumbIssuer.reset(),
+    });
     this.crumbIssuer = createCrumbIssuer(this.httpClient.getAxiosInstance());
 
     const addCrumbHeaders = (cfg = {}) => this.crumbIssuer.addCrumbHeaders(cfg);
 
     this.itemsApi = new ItemsApi(this.httpClient, { addCrumbHeaders });
     this.buildsApi = new BuildsApi(this.httpClient, { addCrumbHeaders });
-    this.nodesApi = new NodesApi(this.httpClient);
+    this.nodesApi = new NodesApi(this.httpClient, { addCrumbHeaders });
     this.queueApi = new QueueApi(this.httpClient, { addCrumbHeaders });
+    this.pipelineApi = new PipelineApi(this.httpClient);
   }
 
   /**
@@ -46,6 +74,24 @@ export class JenkinsClient {
     return await this.itemsApi.getAllItems();
   }
 
+  /**
+   * Get one page of items below a folder (top-level items by default), starting at `from`.
+   */
+  async getItemsPage(
+    from: ItemPosition,
+    limit: number,
+    options: ItemTreeOptions = {}
+  ): Promise<ItemsPage> {
+    return await this.itemsApi.getItemsPage(from, limit, options);
+  }
+
+  /**
+   * Get the direct children of a folder (top-level items when no folder is given).
+   */
+  async getChildItems(parent?: string): Promise<JenkinsItem[]> {
+    return await this.itemsApi.getChildItems(parent);
+  }
+
   /**
    * Get specific item by name.
    */
@@ -61,14 +107,63 @@ export class JenkinsClient {
   }
 
   /**
-   * Query items with filters.
+   * Create an item from config XML.
+   */
+  async createItem(fullName: string, configXml: string): Promise<void> {
+    await this.itemsApi.createItem(fullName, configXml);
+  }
+
+  /**
+   * Update item configuration XML.
+   */
+  async updateItemConfig(fullName: string, configXml: string): Promise<void> {
+    await this.itemsApi.updateItemConfig(fullName, configXml);
+  }
+
+  /**
+   * Copy an item.
+   */
+  async copyItem(sourceFullName: string, fullName: string): Promise<void> {
+    await this.itemsApi.copyItem(sourceFullName, fullName);
+  }
+
+  /**
+   * Rename an item.
+   */
+  async renameItem(fullName: string, newName: string): Promise<void> {
+    await this.itemsApi.renameItem(fullName, newName);
+  }
+
+  /**
+   * Delete an item.
+   */
+  async deleteItem(fullName: string): Promise<void> {
+    await this.itemsApi.deleteItem(fullName);
+  }
+
+  /**
+   * Query one page of items with filters, starting at `from`.
+   */
+  async queryItems(
+    params: QueryItemsParams & ItemTreeOptions,
+    from: ItemPosition,
+    limit: number
+  ): Promise<ItemsPage> {
+    return await this.itemsApi.queryItems(params, from, limit);
+  }
+
+  /**
+   * Get downstream projects of a job.
+   */
+  async getDownstreamProjects(fullName: string): Promise<JenkinsItem[]> {
+    return await this.itemsApi.getDownstreamProjects(fullName);
+  }
+
+  /**
+   * Get recent builds of a job with their causes.
    */
-  async queryItems(params: {
-    classPattern?: string;
-    fullNamePattern?: string;
-    colorPattern?: string;
-  }): Promise<JenkinsItem[]> {
-    return await this.itemsApi.queryItems(params);
+  async getRecentBuildCauses(fullName: string, limit: number): Promise<JenkinsBuild[]> {
+    return await this.itemsApi.getRecentBuildCauses(fullName, limit);
   }
 
   /**
@@ -99,6 +194,62 @@ export class JenkinsClient {
     return await this.nodesApi.getNodeConfig(nodeName);
   }
 
+  /**
+   * Get executor, label, monitor and offline details of all nodes, or of one node.
+   */
+  async getNodeStats(nodeName?: string): Promise<JenkinsNodeStats[]> {
+    return await this.nodesApi.getNodeStats(nodeName);
+  }
+
+  /**
+   * Get executor capacity and queue length of a label.
+   */
+  async getLabelLoad(label: string): Promise<JenkinsLabelLoad> {
+    return await this.nodesApi.getLabelLoad(label);
+  }
+
+  /**
+   * Mark a node temporarily offline, or replace the reason if it already is.
+   */
+  async setNodeOffline(nodeName: string, reason: string): Promise<boolean> {
+    return await this.nodesApi.setNodeOffline(nodeName, reason);
+  }
+
+  /**
+   * Bring a temporarily offline node back online.
+   */
+  async setNodeOnline(nodeName: string): Promise<boolean> {
+    return await this.nodesApi.setNodeOnline(nodeName);
+  }
+
+  /**
+   * Launch the agent of a node.
+   */
+  async launchNodeAgent(nodeName: string): Promise<void> {
+    await this.nodesApi.launchNodeAgent(nodeName);
+  }
+
+  /**
+   * Disconnect the agent of a node.
+   */
+  async disconnectNode(nodeName: string, reason?: string): Promise<void> {
+    await this.nodesApi.disconnectNode(nodeName, reason);
+  }
+
+  /**
+   * Create a permanent agent from config XML.
+   */
+  async createNode(nodeName: string, configXml: string): Promise<void> {
+    await this.nodesApi.createNode(nodeName, configXml);
+  }
+
+  /**
+   * Delete a node.
+   */
+  async deleteNode(nodeName: string): Promise<void> {
+    await this.nodesApi.deleteNode(nodeName);
+  }
+
   /**
    * Get all queue items.
    */
@@ -109,8 +260,8 @@ export class JenkinsClient {
   /**
    * Get specific queue item.
    */
-  async getQueueItem(queueId: number): Promise<JenkinsQueueItem> {
-    return await this.queueApi.getQueueItem(queueId);
+  async getQueueItem(queueId: number, signal?: AbortSignal): Promise<JenkinsQueueItem> {
+    return await this.queueApi.getQueueItem(queueId, { signal });
   }
 
   /**
@@ -123,8 +274,26 @@ export class JenkinsClient {
   /**
    * Get specific build.
    */
-  async getBuild(fullName: string, buildNumber: number): Promise<JenkinsBuild> {
-    return await this.buildsApi.getBuild(fullName, buildNumber);
+  async getBuild(
+    fullName: string,
+    buildNumber: number,
+    signal?: AbortSignal
+  ): Promise<JenkinsBuild> {
+    return await this.buildsApi.getBuild(fullName, buildNumber, { signal });
+  }
+
+  /**
+   * Get build SCM changes and culprits.
+   */
+  async getBuildChanges(fullName: string, buildNumber: number): Promise<JenkinsBuild> {
+    return await this.buildsApi.getBuildChanges(fullName, buildNumber);
+  }
+
+  /**
+   * Get build causes.
+   */
+  async getBuildCauses(fullName: string, buildNumber: number): Promise<JenkinsBuild> {
+    return await this.buildsApi.getBuildCauses(fullName, buildNumber);
   }
 
   /**
@@ -135,10 +304,67 @@ export class JenkinsClient {
   }
 
   /**
-   * Get all running builds.
+   * Get a slice of build console output (progressiveText).
+   */
+  async getBuildConsoleChunk(
+    fullName: string,
+    buildNumber: number,
+    options: ConsoleChunkOptions = {},
+    signal?: AbortSignal
+  ): Promise<JenkinsConsoleChunk> {
+    return await this.buildsApi.getBuildConsoleChunk(fullName, buildNumber, options, { signal });
+  }
+
+  /**
+   * Search build console output for a regex pattern.
+   */
+  async searchBuildConsole(
+    fullName: string,
+    buildNumber: number,
+    pattern: string,
+    options: ConsoleSearchOptions = {}
+  ): Promise<JenkinsConsoleSearchResult> {
+    return await this.buildsApi.searchBuildConsole(fullName, buildNumber, pattern, options);
+  }
+
+  /**
+   * Get build test report (null when the build has none).
+   */
+  async getBuildTestReport(
+    fullName: string,
+    buildNumber: number
+  ): Promise<JenkinsTestReport | null> {
+    return await this.buildsApi.getBuildTestReport(fullName, buildNumber);
+  }
+
+  /**
+   * List build artifacts.
    */
-  async getRunningBuilds(): Promise<JenkinsBuild[]> {
-    return await this.buildsApi.getRunningBuilds();
+  async listBuildArtifacts(
+    fullName: string,
+    buildNumber: number,
+    withSizes: boolean = false
+  ): Promise<JenkinsArtifact[]> {
+    return await this.buildsApi.listBuildArtifacts(fullName, buildNumber, withSizes);
+  }
+
+  /**
+   * Get build artifact content.
+   */
+  async getBuildArtifact(
+    fullName: string,
+    buildNumber: number,
+    relativePath: string,
+    maxBytes?: number
+  ): Promise<JenkinsArtifactContent> {
+    return await this.buildsApi.getBuildArtifact(fullName, buildNumber, relativePath, maxBytes);
+  }
+
+  /**
+   * Get builds running on executors, optionally filtered by node and job.
+   */
+  async getRunningBuilds(filters?: RunningBuildFilters): Promise<JenkinsRunningBuild[]> {
+    return await this.buildsApi.getRunningBuilds(filters);
   }
 
   /**
@@ -147,4 +373,33 @@ export class JenkinsClient {
   async stopBuild(fullName: string, buildNumber: number): Promise<void> {
     await this.buildsApi.stopBuild(fullName, buildNumber);
   }
+
+  /**
+   * Get pipeline run stages.
+   */
+  async getPipelineRun(fullName: string, buildNumber: number): Promise<JenkinsPipelineRun> {
+    return await this.pipelineApi.getPipelineRun(fullName, buildNumber);
+  }
+
+  /**
+   * Get pipeline stage with its flow nodes.
+   */
+  async getPipelineStage(
+    fullName: string,
+    buildNumber: number,
+    stageId: string
+  ): Promise<JenkinsPipelineStageDetail> {
+    return await this.pipelineApi.getPipelineStage(fullName, buildNumber, stageId);
+  }
+
+  /**
+   * Get pipeline flow node log.
+   */
+  async getPipelineNodeLog(
+    fullName: string,
+    buildNumber: number,
+    nodeId: string
+  ): Promise<JenkinsPipelineNodeLog> {
+    return await this.pipelineApi.getPipelineNodeLog(fullName, buildNumber, nodeId);
+  }
 }
@@ -0,0 +1,338 @@
+/**
+ * Jenkins job config.xml summarizer.
+ * Target runtime: Node.js (ESM).
+ *
+ * Turns freestyle, Pipeline, multibranch and folder configs into a normalized summary.
+ * Top-level elements that are not understood are kept under `other`.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  JenkinsBuildDiscarderSummary,
+  JenkinsJobConfigSummary,
+  JenkinsParameterSummary,
+  JenkinsScmSummary,
+  JenkinsTriggerSummary,
+} from '../types/jenkins.js';
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  ignoreDeclaration: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+});
+
+/**
+ * Top-level elements consumed by the summary; everything else goes to `other`.
+ */
+const HANDLED_ELEMENTS = new Set([
+  'description',
+  'disabled',
+  'assignedNode',
+  'canRoam',
+  'properties',
+  'scm',
+  'triggers',
+  'definition',
+  'logRotator',
+  'sources',
+  'factory',
+]);
+
+/**
+ * Parse a job config.xml into a normalized summary.
+ *
+ * @param {string} xml - Raw config.xml content.
+ * @returns {JenkinsJobConfigSummary} Normalized summary.
+ * @throws {Error} When the XML cannot be parsed.
+ */
+export function summarizeJobConfig(xml: string): JenkinsJobConfigSummary {
+  let document: XmlNode;
+  try {
+    document = parser.parse(xml) as XmlNode;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown XML error';
+    throw new Error(`Invalid config XML: ${message}`);
+  }
+
+  const rootElement = Object.keys(document).find((key) => !key.startsWith('?'));
+  if (!rootElement) {
+    throw new Error('Invalid config XML: missing root element');
+  }
+
+  const root = asNode(document[rootElement]);
+  const properties = asNode(root.properties);
+  const definition = asNode(root.definition);
+
+  const summary: JenkinsJobConfigSummary = {
+    type: classifyJobType(rootElement),
+    rootElement,
+    description: text(root.description),
+    disabled: bool(root.disabled),
+    assignedNode: text(root.assignedNode),
+    parameters: extractParameters(properties),
+    scm: extractScms(root, definition),
+    triggers: extractTriggers(root, properties),
+    buildDiscarder: extractBuildDiscarder(root, properties),
+    other: {},
+  };
+
+  if (Object.keys(definition).length > 0) {
+    summary.pipeline = {
+      definition: attr(definition, 'class'),
+      script: text(definition.script),
+      scriptPath: text(definition.scriptPath),
+      sandbox: bool(definition.sandbox),
+      lightweight: bool(definition.lightweight),
+    };
+  } else if (root.factory !== undefined) {
+    summary.pipeline = { scriptPath: text(asNode(root.factory).scriptPath) };
+  }
+
+  for (const [key, value] of Object.entries(root)) {
+    if (key.startsWith('@_') || HANDLED_ELEMENTS.has(key)) continue;
+    summary.other[key] = value;
+  }
+
+  const unhandledProperties = Object.fromEntries(
+    Object.entries(properties).filter(
+      ([key]) =>
+        !key.startsWith('@_') &&
+        !/ParametersDefinitionProperty$|BuildDiscarderProperty$|PipelineTriggersJobProperty$/.test(
+          key
+        )
+    )
+  );
+  if (Object.keys(unhandledProperties).length > 0) {
+    summary.other.properties = unhandledProperties;
+  }
+
+  return summary;
+}
+
+function classifyJobType(rootElement: string): JenkinsJobConfigSummary['type'] {
+  if (rootElement === 'project') return 'freestyle';
+  if (rootElement === 'flow-definition') return 'pipeline';
+  if (rootElement === 'matrix-project') return 'matrix';
+  if (rootElement === 'maven2-moduleset') return 'maven';
+  if (/MultiBranchProject$|OrganizationFolder$/.test(rootElement)) return 'multibranch';
+  if (/Folder$/.test(rootElement)) return 'folder';
+  return 'other';
+}
+
+function extractParameters(properties: XmlNode): JenkinsParameterSummary[] {
+  const property = findByClassSuffix(properties, 'ParametersDefinitionProperty');
+  const definitions = asNode(asNode(property).parameterDefinitions);
+  const parameters: JenkinsParameterSummary[] = [];
+
+  for (const [className, value] of Object.entries(definitions)) {
+    if (className.startsWith('@_')) continue;
+    for (const entry of asArray(value)) {
+      const node = asNode(entry);
+      const defaultValue = text(node.defaultValue);
+      const parameter: JenkinsParameterSummary = {
+        type: shortClassName(className),
+        name: text(node.name) ?? '',
+        description: text(node.description),
+        defaultValue:
+          className.endsWith('BooleanParameterDefinition') && defaultValue !== undefined
+            ? defaultValue === 'true'
+            : defaultValue,
+      };
+      const choices = extractChoices(node.choices);
+      if (choices) parameter.choices = choices;
+      parameters.push(parameter);
+    }
+  }
+
+  return parameters;
+}
+
+function extractChoices(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') {
+    return value.split('\n').filter((choice) => choice.length > 0);
+  }
+  // <choices class="java.util.Arrays$ArrayList"><a class="string-array"><string>..</string></a>
+  const list = asNode(asNode(value).a).string ?? asNode(value).string;
+  return asArray(list).map((choice) => text(choice) ?? '');
+}
+
+function extractScms(root: XmlNode, definition: XmlNode): JenkinsScmSummary[] {
+  const scms: JenkinsScmSummary[] = [];
+
+  if (root.scm !== undefined) scms.push(...summarizeScm(root.scm));
+  if (definition.scm !== undefined) scms.push(...summarizeScm(definition.scm));
+
+  // Multibranch: <sources><data><jenkins.branch.BranchSource><source class="...">
+  const branchSources = asNode(asNode(root.sources).data)['jenkins.branch.BranchSource'];
+  for (const branchSource of asArray(branchSources)) {
+    const source = asNode(asNode(branchSource).source);
+    if (Object.keys(source).length > 0) scms.push(...summarizeScm(source));
+  }
+
+  return scms.filter((scm) => scm.type !== 'NullSCM');
+}
+
+function summarizeScm(value: unknown): JenkinsScmSummary[] {
+  const node = asNode(value);
+  const className = attr(node, 'class') ?? '';
+
+  // MultiSCM wraps several SCMs under <scms>.
+  if (node.scms !== undefined) {
+    return Object.entries(asNode(node.scms))
+      .filter(([key]) => !key.startsWith('@_'))
+      .flatMap(([key, entries]) =>
+        asArray(entries).flatMap((entry) => summarizeScm({ '@_class': key, ...asNode(entry) }))
+      );
+  }
+
+  const urls = [
+    ...findAll(asNode(node.userRemoteConfigs), 'url'),
+    ...findAll(asNode(node.locations), 'remote'),
+    ...[node.remote, node.repositoryUrl].map(text).filter((url): url is string => Boolean(url)),
+  ];
+  if (urls.length === 0 && node.repoOwner !== undefined && node.repository !== undefined) {
+    urls.push(`${text(node.repoOwner)}/${text(node.repository)}`);
+  }
+
+  const scm: JenkinsScmSummary = {
+    type: shortClassName(className),
+    urls,
+    branches: findAll(asNode(node.branches), 'name'),
+  };
+
+  const credentialsId =
+    text(node.credentialsId) ?? findAll(asNode(node.userRemoteConfigs), 'credentialsId')[0];
+  if (credentialsId) scm.credentialsId = credentialsId;
+
+  return [scm];
+}
+
+function extractTriggers(root: XmlNode, properties: XmlNode): JenkinsTriggerSummary[] {
+  const pipelineTriggers = asNode(
+    asNode(findByClassSuffix(properties, 'PipelineTriggersJobProperty')).triggers
+  );
+  const triggerNodes = { ...asNode(root.triggers), ...pipelineTriggers };
+  const triggers: JenkinsTriggerSummary[] = [];
+
+  for (const [className, value] of Object.entries(triggerNodes)) {
+    if (className.startsWith('@_')) continue;
+    for (const entry of asArray(value)) {
+      const node = asNode(entry);
+      const trigger: JenkinsTriggerSummary = {
+        type: classifyTrigger(className),
+        className,
+      };
+      const spec = text(node.spec);
+      if (spec) trigger.spec = spec;
+      const upstream = text(node.upstreamProjects);
+      if (upstream) {
+        trigger.upstreamProjects = upstream
+          .split(',')
+          .map((project) => project.trim())
+          .filter(Boolean);
+      }
+      const threshold = text(asNode(node.threshold).name);
+      if (threshold) trigger.threshold = threshold;
+      triggers.push(trigger);
+    }
+  }
+
+  return triggers;
+}
+
+function classifyTrigger(className: string): JenkinsTriggerSummary['type'] {
+  if (className.endsWith('TimerTrigger')) return 'cron';
+  if (className.endsWith('SCMTrigger')) return 'scm';
+  if (className.endsWith('ReverseBuildTrigger')) return 'upstream';
+  return 'other';
+}
+
+function extractBuildDiscarder(
+  root: XmlNode,
+  properties: XmlNode
+): JenkinsBuildDiscarderSummary | undefined {
+  const strategy =
+    asNode(findByClassSuffix(properties, 'BuildDiscarderProperty')).strategy ?? root.logRotator;
+  if (strategy === undefined) return undefined;
+
+  const node = asNode(strategy);
+  return {
+    strategy: shortClassName(attr(node, 'class') ?? 'hudson.tasks.LogRotator'),
+    daysToKeep: positiveInt(node.daysToKeep),
+    numToKeep: positiveInt(node.numToKeep),
+    artifactDaysToKeep: positiveInt(node.artifactDaysToKeep),
+    artifactNumToKeep: positiveInt(node.artifactNumToKeep),
+  };
+}
+
+function findByClassSuffix(node: XmlNode, suffix: string): unknown {
+  const key = Object.keys(node).find((candidate) => candidate.endsWith(suffix));
+  return key ? node[key] : undefined;
+}
+
+function findAll(node: unknown, field: string): string[] {
+  const values: string[] = [];
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (value === null || typeof value !== 'object') return;
+    for (const [key, child] of Object.entries(value)) {
+      if (key === field) {
+        for (const entry of asArray(child)) {
+          const found = text(entry);
+          if (found) values.push(found);
+        }
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(node);
+  return values;
+}
+
+function asNode(value: unknown): XmlNode {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as XmlNode)
+    : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.length > 0 ? value : undefined;
+  if (value !== null && typeof value === 'object' && '#text' in value) {
+    return text((value as XmlNode)['#text']);
+  }
+  return undefined;
+}
+
+function attr(node: XmlNode, name: string): string | undefined {
+  const value = node[`@_${name}`];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function bool(value: unknown): boolean | undefined {
+  const raw = text(value);
+  return raw === undefined ? undefined : raw === 'true';
+}
+
+function positiveInt(value: unknown): number | undefined {
+  const parsed = Number.parseInt(text(value) ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+function shortClassName(className: string): string {
+  return className.split('.').pop() ?? className;
+}
@@ -46,6 +46,79 @@ export function buildConsolePath(fullName: string, buildNumber: number): string
   return `${buildPath(fullName, buildNumber)}/consoleText`;
 }
 
+/**
+ * Build a Jenkins API path for incremental build console text.
+ *
+ * @param {string} fullName - Job full name.
+ * @param {number} buildNumber - Build number.
+ * @param {number} start - Byte offset to read from.
+ * @returns {string} Progressive text path.
+ */
+export function buildProgressiveTextPath(
+  fullName: string,
+  buildNumber: number,
+  start: number
+): string {
+  return `${buildPath(fullName, buildNumber)}/logText/progressiveText?start=${start}`;
+}
+
+/**
+ * Build a Jenkins API path for a build's JUnit test report.
+ *
+ * @param {string} fullName - Job full name.
+ * @param {number} buildNumber - Build number.
+ * @returns {string} Test report path.
+ */
+export function buildTestReportPath(fullName: string, buildNumber: number): string {
+  return `${buildPath(fullName, buildNumber)}/testReport/api/json`;
+}
+
+/**
+ * Build a Jenkins API path for a pipeline run description (stages).
+ *
+ * @param {string} fullName - Job full name.
+ * @param {number} buildNumber - Build number.
+ * @returns {string} Pipeline describe path.
+ */
+export function pipelineDescribePath(fullName: string, buildNumber: number): string {
+  return `${buildPath(fullName, buildNumber)}/wfapi/describe`;
+}
+
+/**
+ * Build a Jenkins API path for a pipeline flow node resource.
+ *
+ * @param {string} fullName - Job full name.
+ * @param {number} buildNumber - Build number.
+ * @param {string} nodeId - Flow node ID (stage or step).
+ * @param {'describe' | 'log'} resource - wfapi resource.
+ * @returns {string} Pipeline node path (e.g., "/job/name/42/execution/node/7/wfapi/log").
+ */
+export function pipelineNodePath(
+  fullName: string,
+  buildNumber: number,
+  nodeId: string,
+  resource: 'describe' | 'log'
+): string {
+  return `${buildPath(fullName, buildNumber)}/execution/node/${encodeURIComponent(nodeId)}/wfapi/${resource}`;
+}
+
+/**
+ * Build a Jenkins API path for a build artifact file.
+ *
+ * @param {string} fullName - Job full name.
+ * @param {number} buildNumber - Build number.
+ * @param {string} relativePath - Artifact path relative to the archive root.
+ * @returns {string} Artifact path (e.g., "/job/name/42/artifact/reports/coverage.xml").
+ */
+export function buildArtifactPath(
+  fullName: string,
+  buildNumber: number,
+  relativePath: string
+): string {
+  const encoded = relativePath.split('/').map(encodeURIComponent).join('/');
+  return `${buildPath(fullName, buildNumber)}/artifact/${encoded}`;
+}
+
 /**
  * Build a Jenkins API path for build stop action.
  *
@@ -67,6 +140,74 @@ export function jobConfigPath(fullName: string): string {
   return `${jobPath(fullName)}/config.xml`;
 }
 
+/**
+ * Split a job full name into its parent folder and item name.
+ *
+ * @param {string} fullName - Job full name (e.g., "folder/sub/job-name").
+ * @returns {{ parent?: string; name: string }} Parent folder full name (if any) and item name.
+ */
+export function splitFullName(fullName: string): { parent?: string; name: string } {
+  const segments = fullName.split('/');
+  const name = segments.pop() ?? '';
+  return segments.length > 0 ? { parent: segments.join('/'), name } : { name };
+}
+
+/**
+ * Extract the job full name and build number from a build URL.
+ * Extra segments after the build number (e.g. Pipeline node URLs) are ignored.
+ *
+ * @param {string} url - Absolute or relative build URL (e.g., "https://ci/job/folder/job/app/42/").
+ * @returns {{ fullName: string; buildNumber: number } | undefined} Parsed build, or undefined.
+ */
+export function parseBuildUrl(url: string): { fullName: string; buildNumber: number } | undefined {
+  let pathname: string;
+  try {
+    pathname = new URL(url, 'http://localhost').pathname;
+  } catch {
+    return undefined;
+  }
+
+  const match = pathname.match(/((?:\/job\/[^/]+)+)\/(\d+)(?:\/|$)/);
+  if (!match) return undefined;
+
+  const fullName = match[1]
+    .split('/job/')
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment))
+    .join('/');
+  return { fullName, buildNumber: Number(match[2]) };
+}
+
+/**
+ * Build a Jenkins API path for creating an item, at the root or inside a folder.
+ *
+ * @param {string} [parent] - Parent folder full name.
+ * @returns {string} Create item path (e.g., "/job/folder/createItem").
+ */
+export function createItemPath(parent?: string): string {
+  return parent ? `${jobPath(parent)}/createItem` : '/createItem';
+}
+
+/**
+ * Build a Jenkins API path for renaming a job.
+ *
+ * @param {string} fullName - Job full name.
+ * @returns {string} Rename path.
+ */
+export function jobRenamePath(fullName: string): string {
+  return `${jobPath(fullName)}/confirmRename`;
+}
+
+/**
+ * Build a Jenkins API path for deleting a job.
+ *
+ * @param {string} fullName - Job full name.
+ * @returns {string} Delete path.
+ */
+export function jobDeletePath(fullName: string): string {
+  return `${jobPath(fullName)}/doDelete`;
+}
+
 /**
  * Build a Jenkins API path for triggering a job build.
  *
@@ -78,6 +219,41 @@ export function buildTriggerPath(fullName: string, withParameters: boolean = fal
   return withParameters ? `${jobPath(fullName)}/buildWithParameters` : `${jobPath(fullName)}/build`;
 }
 
+/**
+ * URL names of the built-in node, keyed by the lower-cased names users may pass.
+ * The built-in node is listed as "Built-In Node" ("master" before Jenkins 2.307) but served
+ * under "/computer/(built-in)" ("/computer/(master)").
+ */
+const BUILT_IN_NODE_URL_NAMES: Record<string, string> = {
+  'built-in node': '(built-in)',
+  'built-in': '(built-in)',
+  '(built-in)': '(built-in)',
+  master: '(master)',
+  '(master)': '(master)',
+};
+
+/**
+ * Whether a node name refers to the built-in node (the Jenkins controller).
+ *
+ * @param {string} nodeName - Node name or display name.
+ * @returns {boolean} True for the built-in node.
+ */
+export function isBuiltInNode(nodeName: string): boolean {
+  return Object.hasOwn(BUILT_IN_NODE_URL_NAMES, nodeName.trim().toLowerCase());
+}
+
+/**
+ * Build a Jenkins API path for a node (computer) resource.
+ * Display names of the built-in node are mapped to its URL name.
+ *
+ * @param {string} nodeName - Node name.
+ * @returns {string} Node path (e.g., "/computer/agent-1").
+ */
+export function computerPath(nodeName: string): string {
+  const builtIn = BUILT_IN_NODE_URL_NAMES[nodeName.trim().toLowerCase()];
+  return `/computer/${encodeURIComponent(builtIn ?? nodeName)}`;
+}
+
 /**
  * Build a Jenkins API path for node configuration XML.
  *
@@ -85,7 +261,7 @@ export function buildTriggerPath(fullName: string, withParameters: boolean = fal
  * @returns {string} Node config XML path.
  */
 export function nodeConfigPath(nodeName: string): string {
-  return `/computer/${encodeURIComponent(nodeName)}/config.xml`;
+  return `${computerPath(nodeName)}/config.xml`;
 }
 
 /**
@@ -95,7 +271,76 @@ export function nodeConfigPath(nodeName: string): string {
  * @returns {string} Node details path.
  */
 export function nodePath(nodeName: string): string {
-  return `/computer/${encodeURIComponent(nodeName)}/api/json`;
+  return `${computerPath(nodeName)}/api/json`;
+}
+
+/**
+ * Build a Jenkins API path for toggling a node between online and temporarily offline.
+ *
+ * @param {string} nodeName - Node name.
+ * @returns {string} Toggle offline path.
+ */
+export function nodeToggleOfflinePath(nodeName: string): string {
+  return `${computerPath(nodeName)}/toggleOffline`;
+}
+
+/**
+ * Build a Jenkins API path for changing the reason of a temporarily offline node.
+ *
+ * @param {string} nodeName - Node name.
+ * @returns {string} Change offline cause path.
+ */
+export function nodeOfflineCausePath(nodeName: string): string {
+  return `${computerPath(nodeName)}/changeOfflineCause`;
+}
+
+/**
+ * Build a Jenkins API path for launching an agent.
+ *
+ * @param {string} nodeName - Node name.
+ * @returns {string} Launch path.
+ */
+export function nodeLaunchPath(nodeName: string): string {
+  return `${computerPath(nodeName)}/launchSlaveAgent`;
+}
+
+/**
+ * Build a Jenkins API path for disconnecting an agent.
+ *
+ * @param {string} nodeName - Node name.
+ * @returns {string} Disconnect path.
+ */
+export function nodeDisconnectPath(nodeName: string): string {
+  return `${computerPath(nodeName)}/doDisconnect`;
+}
+
+/**
+ * Build a Jenkins API path for deleting a node.
+ *
+ * @param {string} nodeName - Node name.
+ * @returns {string} Delete path.
+ */
+export function nodeDeletePath(nodeName: string): string {
+  return `${computerPath(nodeName)}/doDelete`;
+}
+
+/**
+ * Build a Jenkins API path for creating a node.
+ *
+ * @returns {string} Create node path.
+ */
+export function createNodePath(): string {
+  return '/computer/doCreateItem';
+}
+
+/**
+ * Build a Jenkins API path for label details.
+ *
+ * @param {string} label - Label name or expression (e.g., "linux&&docker").
+ * @returns {string} Label details path.
+ */
+export function labelPath(label: string): string {
+  return `/label/${encodeURIComponent(label)}/api/json`;
 }
 
 /**
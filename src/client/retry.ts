@@ -0,0 +1,111 @@
+import axios from 'axios';
+
+/**
+ * Retry policy for transient Jenkins failures.
+ * Target runtime: Node.js (ESM).
+ *
+ * Idempotent requests (GET, HEAD, OPTIONS) are retried on gateway errors (502, 503, 504),
+ * 429 and network failures. Other requests, such as the POST behind buildItem, are only
+ * retried when the connection was refused, i.e. Jenkins never received them.
+ */
+
+/**
+ * Retry settings.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Backoff before the first retry, in milliseconds; doubles on every retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff, in milliseconds */
+  maxDelayMs: number;
+  /** Upper bound for a Retry-After wait, in milliseconds; longer waits fail instead */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 30_000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+
+/**
+ * Whether a request can be retried after this error.
+ * @param {unknown} error - Error thrown by axios.
+ * @param {string} [method] - HTTP method of the request (defaults to GET, like axios).
+ * @returns {boolean} True when retrying cannot repeat a side effect and may succeed.
+ */
+export function isRetryableError(error: unknown, method: string = 'GET'): boolean {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) return false;
+
+  // A refused connection never reached Jenkins, so even writes are safe to send again.
+  if (error.code === 'ECONNREFUSED') return true;
+  if (!IDEMPOTENT_METHODS.includes(method.toUpperCase())) return false;
+
+  return isTransientError(error);
+}
+
+/**
+ * Whether an error means Jenkins (or the proxy in front of it) is unavailable,
+ * as opposed to rejecting the request. Only these count towards the circuit breaker.
+ * @param {unknown} error - Error thrown by axios.
+ * @returns {boolean} True for gateway errors, 429 and network failures.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) return false;
+
+  const status = error.response?.status;
+  if (status !== undefined) return RETRYABLE_STATUSES.includes(status);
+  return error.code !== undefined && RETRYABLE_NETWORK_CODES.includes(error.code);
+}
+
+/**
+ * Delay before the next retry: the server's Retry-After when given, otherwise exponential
+ * backoff with full jitter.
+ * @param {unknown} error - Error of the failed attempt.
+ * @param {number} attempt - Retry number, starting at 0.
+ * @param {RetryOptions} options - Retry settings.
+ * @returns {number | undefined} Delay in milliseconds, or undefined when Retry-After is too long.
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions
+): number | undefined {
+  const retryAfter = axios.isAxiosError(error)
+    ? parseRetryAfter(error.response?.headers?.['retry-after'])
+    : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter <= options.maxRetryAfterMs ? retryAfter : undefined;
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date).
+ * @param {unknown} value - Header value.
+ * @returns {number | undefined} Delay in milliseconds.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,183 @@
+/**
+ * Jenkins test report normalization helpers.
+ * Target runtime: Node.js (ESM).
+ */
+
+import type {
+  JenkinsFlakyTest,
+  JenkinsTestCase,
+  JenkinsTestCaseResult,
+  JenkinsTestReport,
+} from '../types/jenkins.js';
+
+/**
+ * Test case statuses Jenkins reports for failing tests.
+ */
+const FAILED_STATUSES = new Set(['FAILED', 'REGRESSION']);
+
+/**
+ * Test case statuses Jenkins reports for passing tests.
+ */
+const PASSED_STATUSES = new Set(['PASSED', 'FIXED']);
+
+/**
+ * Check whether a test case status counts as a failure.
+ *
+ * @param {string} status - Jenkins test case status.
+ * @returns {boolean} True for FAILED and REGRESSION.
+ */
+export function isFailedStatus(status: string): boolean {
+  return FAILED_STATUSES.has(status);
+}
+
+/**
+ * Flatten a test report into a list of cases tagged with their suite.
+ * Aggregated reports are expanded through their child reports.
+ *
+ * @param {JenkinsTestReport} report - Raw Jenkins test report.
+ * @param {number} [stackTraceLines] - Keep at most this many stack trace lines (0 omits traces).
+ * @returns {JenkinsTestCaseResult[]} Flattened cases.
+ */
+export function flattenTestCases(
+  report: JenkinsTestReport,
+  stackTraceLines: number = 20
+): JenkinsTestCaseResult[] {
+  const results: JenkinsTestCaseResult[] = [];
+
+  for (const child of report.childReports ?? []) {
+    if (child.result) {
+      results.push(...flattenTestCases(child.result, stackTraceLines));
+    }
+  }
+
+  for (const suite of report.suites ?? []) {
+    for (const testCase of suite.cases ?? []) {
+      results.push(toCaseResult(suite.name, testCase, stackTraceLines));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Count the passed, failed and skipped tests of a report. An aggregated report without counts
+ * of its own is summed over its child reports.
+ *
+ * @param {JenkinsTestReport} report - Raw Jenkins test report.
+ * @returns {{ passCount: number; failCount: number; skipCount: number; totalCount: number }} Counts.
+ */
+export function countTestResults(report: JenkinsTestReport): {
+  passCount: number;
+  failCount: number;
+  skipCount: number;
+  totalCount: number;
+} {
+  const hasOwnCounts = [
+    report.passCount,
+    report.failCount,
+    report.skipCount,
+    report.totalCount,
+  ].some((count) => count !== undefined);
+  if (!hasOwnCounts && report.childReports?.length) {
+    const total = { passCount: 0, failCount: 0, skipCount: 0, totalCount: 0 };
+    for (const child of report.childReports) {
+      if (!child.result) continue;
+      const counts = countTestResults(child.result);
+      total.passCount += counts.passCount;
+      total.failCount += counts.failCount;
+      total.skipCount += counts.skipCount;
+      total.totalCount += counts.totalCount;
+    }
+    return total;
+  }
+
+  const failCount = report.failCount ?? 0;
+  const skipCount = report.skipCount ?? 0;
+  const totalCount = report.totalCount ?? (report.passCount ?? 0) + failCount + skipCount;
+  const passCount = report.passCount ?? Math.max(0, totalCount - failCount - skipCount);
+
+  return { passCount, failCount, skipCount, totalCount };
+}
+
+/**
+ * Find tests that both passed and failed across a set of builds.
+ * Skipped results are ignored. Results are sorted by flip count, then failure rate.
+ *
+ * @param {Array<{ buildNumber: number; cases: JenkinsTestCaseResult[] }>} runs - Test cases per build.
+ * @returns {JenkinsFlakyTest[]} Flaky tests.
+ */
+export function detectFlakyTests(
+  runs: Array<{ buildNumber: number; cases: JenkinsTestCaseResult[] }>
+): JenkinsFlakyTest[] {
+  const history = new Map<
+    string,
+    { testCase: JenkinsTestCaseResult; outcomes: Array<{ buildNumber: number; failed: boolean }> }
+  >();
+
+  const ordered = [...runs].sort((a, b) => a.buildNumber - b.buildNumber);
+  for (const run of ordered) {
+    for (const testCase of run.cases) {
+      const failed = isFailedStatus(testCase.status);
+      if (!failed && !PASSED_STATUSES.has(testCase.status)) continue;
+
+      const key = `${testCase.suite}\u0000${testCase.className}\u0000${testCase.name}`;
+      const entry = history.get(key) ?? { testCase, outcomes: [] };
+      entry.outcomes.push({ buildNumber: run.buildNumber, failed });
+      history.set(key, entry);
+    }
+  }
+
+  const flaky: JenkinsFlakyTest[] = [];
+  for (const { testCase, outcomes } of history.values()) {
+    const failedBuilds = outcomes.filter((o) => o.failed).map((o) => o.buildNumber);
+    const passedBuilds = outcomes.filter((o) => !o.failed).map((o) => o.buildNumber);
+    if (failedBuilds.length === 0 || passedBuilds.length === 0) continue;
+
+    let flips = 0;
+    for (let i = 1; i < outcomes.length; i++) {
+      if (outcomes[i].failed !== outcomes[i - 1].failed) flips++;
+    }
+
+    flaky.push({
+      suite: testCase.suite,
+      className: testCase.className,
+      name: testCase.name,
+      flips,
+      failureRate: Math.round((failedBuilds.length / outcomes.length) * 100) / 100,
+      failedBuilds,
+      passedBuilds,
+    });
+  }
+
+  return flaky.sort((a, b) => b.flips - a.flips || b.failureRate - a.failureRate);
+}
+
+function toCaseResult(
+  suite: string,
+  testCase: JenkinsTestCase,
+  stackTraceLines: number
+): JenkinsTestCaseResult {
+  const result: JenkinsTestCaseResult = {
+    suite,
+    className: testCase.className,
+    name: testCase.name,
+    status: testCase.status,
+    duration: testCase.duration,
+  };
+
+  if (testCase.errorDetails) {
+    result.errorDetails = testCase.errorDetails;
+  }
+
+  if (testCase.errorStackTrace && stackTraceLines > 0) {
+    result.errorStackTrace = trimLines(testCase.errorStackTrace, stackTraceLines);
+  }
+
+  return result;
+}
+
+function trimLines(text: string, maxLines: number): string {
+  const lines = text.split('\n');
+  if (lines.length <= maxLines) return text;
+  return `${lines.slice(0, maxLines).join('\n')}\n... (${lines.length - maxLines} more lines)`;
+}
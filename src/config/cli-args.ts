@@ -0,0 +1,65 @@
+/**
+ * Command-line argument parser.
+ * Target runtime: Node.js (ESM).
+ *
+ * Supported flags:
+ * - --config <path> (or --config=<path>): config file; overrides JENKINS_MCP_CONFIG
+ * - --transport <stdio|http>: overrides JENKINS_MCP_TRANSPORT (default stdio)
+ * - --host <host>, --port <port>: HTTP listen address; override JENKINS_MCP_HOST/JENKINS_MCP_PORT
+ */
+
+/**
+ * Options parsed from the command line.
+ */
+export interface CliOptions {
+  configPath?: string;
+  transport?: string;
+  host?: string;
+  port?: string;
+}
+
+/**
+ * Parse command-line arguments.
+ * @param {string[]} argv - Arguments after the script path (e.g. process.argv.slice(2)).
+ * @returns {CliOptions} Parsed options.
+ * @throws {Error} On unknown flags or missing flag values.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') ? splitFlag(arg) : [arg, undefined];
+    const value = (): string => {
+      const next = inlineValue ?? argv[++i];
+      if (next === undefined || next === '') {
+        throw new Error(`${flag} requires a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--config':
+        options.configPath = value();
+        break;
+      case '--transport':
+        options.transport = value();
+        break;
+      case '--host':
+        options.host = value();
+        break;
+      case '--port':
+        options.port = value();
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const index = arg.indexOf('=');
+  return index === -1 ? [arg, undefined] : [arg.slice(0, index), arg.slice(index + 1)];
+}
@@ -0,0 +1,409 @@
+/**
+ * Config file loader (JSON or YAML) with named Jenkins profiles.
+ * Target runtime: Node.js (ESM).
+ *
+ * Each profile becomes a Jenkins instance. Example (YAML):
+ *
+ *   defaultProfile: ci
+ *   toolPolicy:
+ *     readOnly: true
+ *   subscriptions:
+ *     buildPollInterval: 5     # seconds
+ *     jobPollInterval: 30
+ *   profiles:
+ *     ci:
+ *       url: https://ci.example.com
+ *       username: ci-bot
+ *       password: { env: CI_JENKINS_TOKEN }   # or inline, or { file: ./ci-token }
+ *       timeout: 10
+ *       tls:
+ *         verify: true
+ *         caFile: ./ca.pem
+ *       maxRetries: 3
+ *       circuitBreaker: { threshold: 5, cooldown: 30 }
+ *       toolPolicy:
+ *         deny: [delete_item]
+ *
+ * Relative file paths are resolved against the config file's directory.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type {
+  JenkinsConfigFile,
+  JenkinsCredentialSource,
+  JenkinsInstanceConfig,
+  SubscriptionConfig,
+  ToolPolicy,
+} from '../types/jenkins.js';
+import { isPlainObject } from '../utils/validation.js';
+
+/**
+ * Profile read from a config file, with credentials and CA file resolved.
+ * The URL stays optional until environment overrides are applied.
+ */
+export type LoadedProfile = Partial<JenkinsInstanceConfig> & { name: string };
+
+/**
+ * Validated config file contents.
+ */
+export interface LoadedConfigFile {
+  path: string;
+  defaultProfile?: string;
+  toolPolicy: ToolPolicy;
+  subscriptions: Partial<SubscriptionConfig>;
+  profiles: LoadedProfile[];
+}
+
+const ROOT_KEYS = ['defaultProfile', 'toolPolicy', 'subscriptions', 'profiles'];
+const PROFILE_KEYS = [
+  'url',
+  'username',
+  'password',
+  'timeout',
+  'tls',
+  'maxRetries',
+  'circuitBreaker',
+  'toolPolicy',
+];
+const TLS_KEYS = ['verify', 'caFile'];
+const CIRCUIT_BREAKER_KEYS = ['threshold', 'cooldown'];
+const POLICY_KEYS = ['readOnly', 'allow', 'deny'];
+const SUBSCRIPTION_KEYS = ['buildPollInterval', 'jobPollInterval'];
+
+/**
+ * Read, validate and resolve a config file.
+ * @param {string} filePath - Path to a .json, .yaml or .yml file.
+ * @param {NodeJS.ProcessEnv} env - Environment used to resolve `{ env: NAME }` credentials.
+ * @returns {LoadedConfigFile} Validated config with resolved credentials.
+ * @throws {Error} When the file cannot be read or parsed, listing every invalid field path.
+ */
+export function loadConfigFile(
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env
+): LoadedConfigFile {
+  const absolutePath = path.resolve(filePath);
+
+  let raw: string;
+  try {
+    raw = fs.readFileSync(absolutePath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot read config file ${absolutePath}: ${message}`);
+  }
+
+  let document: unknown;
+  try {
+    document = /\.ya?ml$/i.test(absolutePath) ? parseYaml(raw) : JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot parse config file ${absolutePath}: ${message}`);
+  }
+
+  const errors: string[] = [];
+  const file = validateConfigFile(document, errors);
+  if (errors.length > 0 || !file) {
+    throw invalidConfigError(absolutePath, errors);
+  }
+
+  const baseDir = path.dirname(absolutePath);
+  const profiles = Object.entries(file.profiles).map(([name, profile]): LoadedProfile => {
+    const fieldPath = `profiles.${name}`;
+    const loaded: LoadedProfile = { name };
+    if (profile.url !== undefined) loaded.url = profile.url.trim();
+    if (profile.username !== undefined) {
+      loaded.username = resolveCredential(
+        profile.username,
+        `${fieldPath}.username`,
+        baseDir,
+        env,
+        errors
+      );
+    }
+    if (profile.password !== undefined) {
+      loaded.password = resolveCredential(
+        profile.password,
+        `${fieldPath}.password`,
+        baseDir,
+        env,
+        errors
+      );
+    }
+    if (profile.timeout !== undefined) loaded.timeout = profile.timeout;
+    if (profile.tls?.verify !== undefined) loaded.verifySSL = profile.tls.verify;
+    if (profile.tls?.caFile !== undefined) {
+      loaded.ca = readRelativeFile(profile.tls.caFile, `${fieldPath}.tls.caFile`, baseDir, errors);
+    }
+    if (profile.maxRetries !== undefined) loaded.maxRetries = profile.maxRetries;
+    if (profile.circuitBreaker?.threshold !== undefined) {
+      loaded.circuitBreakerThreshold = profile.circuitBreaker.threshold;
+    }
+    if (profile.circuitBreaker?.cooldown !== undefined) {
+      loaded.circuitBreakerCooldown = profile.circuitBreaker.cooldown;
+    }
+    if (profile.toolPolicy !== undefined) loaded.toolPolicy = profile.toolPolicy;
+    return loaded;
+  });
+
+  if (errors.length > 0) {
+    throw invalidConfigError(absolutePath, errors);
+  }
+
+  return {
+    path: absolutePath,
+    defaultProfile: file.defaultProfile,
+    toolPolicy: file.toolPolicy ?? {},
+    subscriptions: file.subscriptions ?? {},
+    profiles,
+  };
+}
+
+function validateConfigFile(document: unknown, errors: string[]): JenkinsConfigFile | undefined {
+  if (!isPlainObject(document)) {
+    errors.push('(root): must be an object');
+    return undefined;
+  }
+
+  checkUnknownKeys(document, ROOT_KEYS, '', errors);
+
+  if (document.defaultProfile !== undefined && !isNonEmptyString(document.defaultProfile)) {
+    errors.push('defaultProfile: must be a non-empty string');
+  }
+  if (document.toolPolicy !== undefined) {
+    validateToolPolicy(document.toolPolicy, 'toolPolicy', errors);
+  }
+  if (document.subscriptions !== undefined) {
+    validateSubscriptions(document.subscriptions, 'subscriptions', errors);
+  }
+
+  const profiles = document.profiles;
+  if (!isPlainObject(profiles)) {
+    errors.push('profiles: must be an object mapping profile names to profiles');
+    return undefined;
+  }
+  if (Object.keys(profiles).length === 0) {
+    errors.push('profiles: must define at least one profile');
+  }
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    validateProfile(profile, `profiles.${name}`, errors);
+  }
+
+  if (
+    isNonEmptyString(document.defaultProfile) &&
+    !Object.keys(profiles).includes(document.defaultProfile)
+  ) {
+    errors.push(
+      `defaultProfile: "${document.defaultProfile}" is not one of: ${Object.keys(profiles).join(', ')}`
+    );
+  }
+
+  return document as unknown as JenkinsConfigFile;
+}
+
+function validateProfile(profile: unknown, fieldPath: string, errors: string[]): void {
+  if (!isPlainObject(profile)) {
+    errors.push(`${fieldPath}: must be an object`);
+    return;
+  }
+
+  checkUnknownKeys(profile, PROFILE_KEYS, fieldPath, errors);
+
+  if (profile.url !== undefined) {
+    if (!isNonEmptyString(profile.url)) {
+      errors.push(`${fieldPath}.url: must be a non-empty string`);
+    } else if (!isValidUrl(profile.url.trim())) {
+      errors.push(`${fieldPath}.url: must be a valid URL`);
+    }
+  }
+  validateCredential(profile.username, `${fieldPath}.username`, errors);
+  validateCredential(profile.password, `${fieldPath}.password`, errors);
+
+  if (
+    profile.timeout !== undefined &&
+    (typeof profile.timeout !== 'number' ||
+      !Number.isInteger(profile.timeout) ||
+      profile.timeout <= 0)
+  ) {
+    errors.push(`${fieldPath}.timeout: must be a positive integer (seconds)`);
+  }
+
+  if (profile.tls !== undefined) {
+    if (!isPlainObject(profile.tls)) {
+      errors.push(`${fieldPath}.tls: must be an object`);
+    } else {
+      checkUnknownKeys(profile.tls, TLS_KEYS, `${fieldPath}.tls`, errors);
+      if (profile.tls.verify !== undefined && typeof profile.tls.verify !== 'boolean') {
+        errors.push(`${fieldPath}.tls.verify: must be a boolean`);
+      }
+      if (profile.tls.caFile !== undefined && !isNonEmptyString(profile.tls.caFile)) {
+        errors.push(`${fieldPath}.tls.caFile: must be a non-empty string`);
+      }
+    }
+  }
+
+  if (profile.maxRetries !== undefined && !isNonNegativeInteger(profile.maxRetries)) {
+    errors.push(`${fieldPath}.maxRetries: must be a non-negative integer`);
+  }
+
+  if (profile.circuitBreaker !== undefined) {
+    if (!isPlainObject(profile.circuitBreaker)) {
+      errors.push(`${fieldPath}.circuitBreaker: must be an object`);
+    } else {
+      const breaker = profile.circuitBreaker;
+      checkUnknownKeys(breaker, CIRCUIT_BREAKER_KEYS, `${fieldPath}.circuitBreaker`, errors);
+      if (breaker.threshold !== undefined && !isNonNegativeInteger(breaker.threshold)) {
+        errors.push(`${fieldPath}.circuitBreaker.threshold: must be a non-negative integer`);
+      }
+      if (
+        breaker.cooldown !== undefined &&
+        (!isNonNegativeInteger(breaker.cooldown) || breaker.cooldown === 0)
+      ) {
+        errors.push(`${fieldPath}.circuitBreaker.cooldown: must be a positive integer (seconds)`);
+      }
+    }
+  }
+
+  if (profile.toolPolicy !== undefined) {
+    validateToolPolicy(profile.toolPolicy, `${fieldPath}.toolPolicy`, errors);
+  }
+}
+
+function validateCredential(value: unknown, fieldPath: string, errors: string[]): void {
+  if (value === undefined || typeof value === 'string') return;
+
+  if (!isPlainObject(value)) {
+    errors.push(`${fieldPath}: must be a string, { env: NAME } or { file: PATH }`);
+    return;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length !== 1 || !['env', 'file'].includes(keys[0])) {
+    errors.push(`${fieldPath}: must have exactly one of "env" or "file"`);
+    return;
+  }
+  if (!isNonEmptyString(value[keys[0]])) {
+    errors.push(`${fieldPath}.${keys[0]}: must be a non-empty string`);
+  }
+}
+
+function validateToolPolicy(policy: unknown, fieldPath: string, errors: string[]): void {
+  if (!isPlainObject(policy)) {
+    errors.push(`${fieldPath}: must be an object`);
+    return;
+  }
+
+  checkUnknownKeys(policy, POLICY_KEYS, fieldPath, errors);
+
+  if (policy.readOnly !== undefined && typeof policy.readOnly !== 'boolean') {
+    errors.push(`${fieldPath}.readOnly: must be a boolean`);
+  }
+  for (const key of ['allow', 'deny']) {
+    const list = policy[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      errors.push(`${fieldPath}.${key}: must be an array of tool names`);
+      continue;
+    }
+    list.forEach((entry, index) => {
+      if (!isNonEmptyString(entry)) {
+        errors.push(`${fieldPath}.${key}[${index}]: must be a non-empty string`);
+      }
+    });
+  }
+}
+
+function validateSubscriptions(value: unknown, fieldPath: string, errors: string[]): void {
+  if (!isPlainObject(value)) {
+    errors.push(`${fieldPath}: must be an object`);
+    return;
+  }
+
+  checkUnknownKeys(value, SUBSCRIPTION_KEYS, fieldPath, errors);
+
+  for (const key of SUBSCRIPTION_KEYS) {
+    const interval = value[key];
+    if (
+      interval !== undefined &&
+      (typeof interval !== 'number' || !Number.isInteger(interval) || interval <= 0)
+    ) {
+      errors.push(`${fieldPath}.${key}: must be a positive integer (seconds)`);
+    }
+  }
+}
+
+function checkUnknownKeys(
+  node: Record<string, unknown>,
+  allowed: string[],
+  fieldPath: string,
+  errors: string[]
+): void {
+  for (const key of Object.keys(node)) {
+    if (!allowed.includes(key)) {
+      errors.push(
+        `${fieldPath ? `${fieldPath}.` : ''}${key}: unknown field (expected one of: ${allowed.join(', ')})`
+      );
+    }
+  }
+}
+
+function resolveCredential(
+  source: JenkinsCredentialSource,
+  fieldPath: string,
+  baseDir: string,
+  env: NodeJS.ProcessEnv,
+  errors: string[]
+): string | undefined {
+  if (typeof source === 'string') return source;
+
+  if ('env' in source) {
+    const value = env[source.env];
+    if (value === undefined || value === '') {
+      errors.push(`${fieldPath}.env: environment variable ${source.env} is not set`);
+      return undefined;
+    }
+    return value;
+  }
+
+  return readRelativeFile(source.file, `${fieldPath}.file`, baseDir, errors)?.trim();
+}
+
+function readRelativeFile(
+  filePath: string,
+  fieldPath: string,
+  baseDir: string,
+  errors: string[]
+): string | undefined {
+  const resolved = path.resolve(baseDir, filePath);
+  try {
+    return fs.readFileSync(resolved, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    errors.push(`${fieldPath}: cannot read ${resolved}: ${message}`);
+    return undefined;
+  }
+}
+
+function invalidConfigError(filePath: string, errors: string[]): Error {
+  return new Error(
+    `Invalid config file ${filePath}:\n${errors.map((error) => `  - ${error}`).join('\n')}`
+  );
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
@@ -2,41 +2,271 @@
  * Centralized Jenkins config loader and URL sanitizer.
  * Target runtime: Node.js (ESM).
  *
- * Environment variables:
+ * Environment variables (single instance):
  * - JENKINS_URL (required)
  * - JENKINS_USERNAME (optional)
  * - JENKINS_PASSWORD or JENKINS_API_TOKEN (optional)
  * - JENKINS_TIMEOUT (optional, seconds; default 5)
  * - JENKINS_VERIFY_SSL (optional, default true; set "false" to disable)
+ * - JENKINS_MAX_RETRIES (optional, default 3; retries for transient failures, 0 disables)
+ * - JENKINS_CIRCUIT_BREAKER_THRESHOLD (optional, default 5; failures before failing fast,
+ *   0 disables)
+ * - JENKINS_CIRCUIT_BREAKER_COOLDOWN (optional, seconds; default 30)
+ *
+ * Multiple named instances:
+ * - JENKINS_INSTANCES (comma-separated names, e.g. "ci,release")
+ * - JENKINS_<NAME>_URL, JENKINS_<NAME>_USERNAME, JENKINS_<NAME>_PASSWORD or
+ *   JENKINS_<NAME>_API_TOKEN, JENKINS_<NAME>_TIMEOUT, JENKINS_<NAME>_VERIFY_SSL and the
+ *   retry/circuit breaker variables
+ *   (<NAME> is the instance name upper-cased, non-alphanumerics replaced by "_")
+ * - JENKINS_DEFAULT_INSTANCE (optional, defaults to the first listed instance)
+ *
+ * Tool policy (all instances):
+ * - JENKINS_READ_ONLY (optional, default false; hides tools that modify Jenkins)
+ * - JENKINS_TOOLS_ALLOW (optional, comma-separated tool names; only these are exposed)
+ * - JENKINS_TOOLS_DENY (optional, comma-separated tool names; never exposed)
+ *
+ * Resource subscriptions:
+ * - JENKINS_MCP_BUILD_POLL_INTERVAL (optional, seconds; default 5)
+ * - JENKINS_MCP_JOB_POLL_INTERVAL (optional, seconds; default 30)
+ *
+ * Config file (see config-file.ts):
+ * - --config <path> or JENKINS_MCP_CONFIG; each profile becomes an instance.
+ *   JENKINS_<NAME>_*, JENKINS_INSTANCES, JENKINS_DEFAULT_INSTANCE, the tool policy
+ *   and the poll interval variables override the file. The single instance variables
+ *   (JENKINS_URL, ...) override the default profile; JENKINS_<NAME>_* wins over them.
+ */
+
+import type {
+  JenkinsConfig,
+  JenkinsInstanceConfig,
+  JenkinsServerConfig,
+  SubscriptionConfig,
+  ToolPolicy,
+} from '../types/jenkins.js';
+import {
+  parseBoolean,
+  parseList,
+  parseNonNegativeInt,
+  parsePositiveInt,
+} from '../utils/validation.js';
+import { type LoadedConfigFile, loadConfigFile } from './config-file.js';
+
+/**
+ * Instance name used when JENKINS_INSTANCES is not set.
  */
+export const DEFAULT_INSTANCE_NAME = 'default';
 
-import type { JenkinsConfig } from '../types/jenkins.js';
-import { parsePositiveInt } from '../utils/validation.js';
+/**
+ * Poll intervals used when neither the environment nor the config file sets them.
+ */
+export const DEFAULT_SUBSCRIPTION_CONFIG: SubscriptionConfig = {
+  buildPollInterval: 5,
+  jobPollInterval: 30,
+};
 
 /**
  * Load Jenkins configuration from environment variables.
  * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @param {string} [prefix] - Variable prefix (e.g. "JENKINS_CI_" for a named instance).
  * @returns {JenkinsConfig} Parsed and validated Jenkins config.
  * @throws {Error} When required config is missing or invalid.
  */
-export function loadJenkinsConfig(env: NodeJS.ProcessEnv = process.env): JenkinsConfig {
-  const url = (env.JENKINS_URL || '').trim();
+export function loadJenkinsConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  prefix: string = 'JENKINS_'
+): JenkinsConfig {
+  const overrides = readEnvOverrides(env, prefix);
 
-  if (!url) {
-    throw new Error('JENKINS_URL environment variable is required');
+  if (!overrides.url) {
+    throw new Error(`${prefix}URL environment variable is required`);
   }
 
-  const timeoutSeconds = parsePositiveInt(env.JENKINS_TIMEOUT, 5, 'JENKINS_TIMEOUT');
+  return {
+    url: overrides.url,
+    username: overrides.username,
+    password: overrides.password,
+    timeout: overrides.timeout ?? 5,
+    verifySSL: overrides.verifySSL ?? true,
+    maxRetries: overrides.maxRetries,
+    circuitBreakerThreshold: overrides.circuitBreakerThreshold,
+    circuitBreakerCooldown: overrides.circuitBreakerCooldown,
+  };
+}
+
+/**
+ * Load server configuration: Jenkins instances, the default instance, the tool policy and
+ * subscription poll intervals.
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @param {string} [configPath] - Config file path; defaults to JENKINS_MCP_CONFIG.
+ * @returns {JenkinsServerConfig} Parsed and validated server config.
+ * @throws {Error} When required config is missing or invalid.
+ */
+export function loadServerConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  configPath: string | undefined = env.JENKINS_MCP_CONFIG
+): JenkinsServerConfig {
+  const file = configPath?.trim() ? loadConfigFile(configPath.trim(), env) : undefined;
+
+  const names = parseList(env.JENKINS_INSTANCES) ?? [];
+  const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`JENKINS_INSTANCES contains duplicate names: ${duplicates.join(', ')}`);
+  }
+
+  const requestedDefault = (env.JENKINS_DEFAULT_INSTANCE || '').trim();
+  let instances: JenkinsInstanceConfig[];
+  if (file) {
+    const selected = names.length > 0 ? names : file.profiles.map((profile) => profile.name);
+    const defaultName =
+      requestedDefault ||
+      (file.defaultProfile && selected.includes(file.defaultProfile)
+        ? file.defaultProfile
+        : selected[0]);
+    instances = selected.map((name) => loadProfileInstance(file, name, env, name === defaultName));
+  } else if (names.length > 0) {
+    instances = names.map((name) => ({
+      name,
+      ...loadJenkinsConfig(env, instanceEnvPrefix(name)),
+    }));
+  } else {
+    instances = [{ name: DEFAULT_INSTANCE_NAME, ...loadJenkinsConfig(env) }];
+  }
+
+  const defaultInstance =
+    requestedDefault ||
+    (file?.defaultProfile && instances.some((i) => i.name === file.defaultProfile)
+      ? file.defaultProfile
+      : instances[0].name);
+  if (!instances.some((instance) => instance.name === defaultInstance)) {
+    throw new Error(
+      `JENKINS_DEFAULT_INSTANCE "${defaultInstance}" is not one of: ${instances
+        .map((instance) => instance.name)
+        .join(', ')}`
+    );
+  }
+
+  const filePolicy: ToolPolicy = file?.toolPolicy ?? {};
+  const fileSubscriptions = file?.subscriptions ?? {};
+  return {
+    instances,
+    defaultInstance,
+    toolPolicy: {
+      readOnly: parseBoolean(
+        env.JENKINS_READ_ONLY,
+        filePolicy.readOnly ?? false,
+        'JENKINS_READ_ONLY'
+      ),
+      allow: parseList(env.JENKINS_TOOLS_ALLOW) ?? filePolicy.allow,
+      deny: parseList(env.JENKINS_TOOLS_DENY) ?? filePolicy.deny,
+    },
+    subscriptions: {
+      buildPollInterval: parsePositiveInt(
+        env.JENKINS_MCP_BUILD_POLL_INTERVAL,
+        fileSubscriptions.buildPollInterval ?? DEFAULT_SUBSCRIPTION_CONFIG.buildPollInterval,
+        'JENKINS_MCP_BUILD_POLL_INTERVAL'
+      ),
+      jobPollInterval: parsePositiveInt(
+        env.JENKINS_MCP_JOB_POLL_INTERVAL,
+        fileSubscriptions.jobPollInterval ?? DEFAULT_SUBSCRIPTION_CONFIG.jobPollInterval,
+        'JENKINS_MCP_JOB_POLL_INTERVAL'
+      ),
+    },
+  };
+}
+
+/**
+ * Build an instance from a config file profile with JENKINS_<NAME>_* overrides applied. The
+ * default instance also takes the unprefixed JENKINS_* variables, below the prefixed ones.
+ * Names missing from the file must be fully configured through the environment.
+ */
+function loadProfileInstance(
+  file: LoadedConfigFile,
+  name: string,
+  env: NodeJS.ProcessEnv,
+  isDefault: boolean
+): JenkinsInstanceConfig {
+  const prefix = instanceEnvPrefix(name);
+  const profile = file.profiles.find((candidate) => candidate.name === name);
+  const merged = {
+    ...profile,
+    ...(isDefault ? readEnvOverrides(env, 'JENKINS_') : {}),
+    ...readEnvOverrides(env, prefix),
+    name,
+  };
+
+  if (!merged.url) {
+    throw new Error(
+      profile
+        ? `profiles.${name}.url is required in ${file.path} (or set ${isDefault ? 'JENKINS_URL or ' : ''}${prefix}URL)`
+        : `Instance "${name}" is not a profile in ${file.path}; set ${prefix}URL to configure it`
+    );
+  }
 
   return {
-    url,
-    username: env.JENKINS_USERNAME,
-    password: env.JENKINS_PASSWORD || env.JENKINS_API_TOKEN,
-    timeout: timeoutSeconds,
-    verifySSL: env.JENKINS_VERIFY_SSL !== 'false',
+    ...merged,
+    url: merged.url,
+    timeout: merged.timeout ?? 5,
+    verifySSL: merged.verifySSL ?? true,
   };
 }
 
+/**
+ * Read the Jenkins connection variables that are set for a prefix.
+ */
+function readEnvOverrides(env: NodeJS.ProcessEnv, prefix: string): Partial<JenkinsConfig> {
+  const overrides: Partial<JenkinsConfig> = {};
+
+  const url = (env[`${prefix}URL`] || '').trim();
+  if (url) overrides.url = url;
+
+  const username = env[`${prefix}USERNAME`];
+  if (username) overrides.username = username;
+
+  const password = env[`${prefix}PASSWORD`] || env[`${prefix}API_TOKEN`];
+  if (password) overrides.password = password;
+
+  const timeout = env[`${prefix}TIMEOUT`];
+  if (timeout) overrides.timeout = parsePositiveInt(timeout, 5, `${prefix}TIMEOUT`);
+
+  const verifySSL = env[`${prefix}VERIFY_SSL`];
+  if (verifySSL) overrides.verifySSL = verifySSL !== 'false';
+
+  const maxRetries = env[`${prefix}MAX_RETRIES`];
+  if (maxRetries) {
+    overrides.maxRetries = parseNonNegativeInt(maxRetries, 3, `${prefix}MAX_RETRIES`);
+  }
+
+  const threshold = env[`${prefix}CIRCUIT_BREAKER_THRESHOLD`];
+  if (threshold) {
+    overrides.circuitBreakerThreshold = parseNonNegativeInt(
+      threshold,
+      5,
+      `${prefix}CIRCUIT_BREAKER_THRESHOLD`
+    );
+  }
+
+  const cooldown = env[`${prefix}CIRCUIT_BREAKER_COOLDOWN`];
+  if (cooldown) {
+    overrides.circuitBreakerCooldown = parsePositiveInt(
+      cooldown,
+      30,
+      `${prefix}CIRCUIT_BREAKER_COOLDOWN`
+    );
+  }
+
+  return overrides;
+}
+
+/**
+ * Build the environment variable prefix for a named instance.
+ * @param {string} name - Instance name.
+ * @returns {string} Prefix (e.g. "JENKINS_RELEASE_").
+ */
+export function instanceEnvPrefix(name: string): string {
+  return `JENKINS_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
 /**
  * Sanitize a URL by stripping embedded credentials.
  * @param {string} rawUrl - The raw URL to sanitize.
@@ -0,0 +1,62 @@
+/**
+ * MCP transport config loader.
+ * Target runtime: Node.js (ESM).
+ *
+ * Command-line flags win over environment variables:
+ * - JENKINS_MCP_TRANSPORT (optional, "stdio" or "http"; default "stdio")
+ * - JENKINS_MCP_HOST (optional, HTTP listen host; default 127.0.0.1)
+ * - JENKINS_MCP_PORT (optional, HTTP listen port; default 3000)
+ * - JENKINS_MCP_AUTH_TOKEN (optional, bearer token HTTP clients must send)
+ * - JENKINS_MCP_ALLOWED_HOSTS (optional, comma-separated Host header names accepted on /mcp)
+ * - JENKINS_MCP_ALLOWED_ORIGINS (optional, comma-separated browser origins accepted on /mcp)
+ * - JENKINS_MCP_SESSION_IDLE_TIMEOUT (optional, seconds before an idle session is closed; default 1800)
+ */
+
+import type { TransportConfig } from '../types/jenkins.js';
+import { parseList, parsePositiveInt } from '../utils/validation.js';
+import type { CliOptions } from './cli-args.js';
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60;
+
+/**
+ * Resolve the transport from command-line options and environment variables.
+ * @param {CliOptions} options - Parsed command-line options.
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {TransportConfig} Transport config.
+ * @throws {Error} When the transport, port or idle timeout is invalid.
+ */
+export function loadTransportConfig(
+  options: CliOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const type = (options.transport ?? env.JENKINS_MCP_TRANSPORT ?? 'stdio').trim().toLowerCase();
+
+  if (type === 'stdio' || type === '') {
+    return { type: 'stdio' };
+  }
+  if (type !== 'http') {
+    throw new Error(`Transport must be "stdio" or "http" (got "${type}")`);
+  }
+
+  const rawPort = (options.port ?? env.JENKINS_MCP_PORT ?? '').trim();
+  const port = rawPort === '' ? DEFAULT_HTTP_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error('Port must be an integer between 0 and 65535');
+  }
+
+  return {
+    type: 'http',
+    host: (options.host ?? env.JENKINS_MCP_HOST ?? '').trim() || DEFAULT_HTTP_HOST,
+    port,
+    authToken: env.JENKINS_MCP_AUTH_TOKEN?.trim() || undefined,
+    allowedHosts: parseList(env.JENKINS_MCP_ALLOWED_HOSTS)?.map((host) => host.toLowerCase()),
+    allowedOrigins: parseList(env.JENKINS_MCP_ALLOWED_ORIGINS),
+    sessionIdleTimeout: parsePositiveInt(
+      env.JENKINS_MCP_SESSION_IDLE_TIMEOUT,
+      DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS,
+      'JENKINS_MCP_SESSION_IDLE_TIMEOUT'
+    ),
+  };
+}
@@ -1,9 +1,11 @@
 #!/usr/bin/env node
 
-import { JenkinsClient } from './client/jenkins.js';
-import { loadJenkinsConfig } from './config/jenkins-config.js';
+import { JenkinsInstances } from './client/instances.js';
+import { parseCliArgs } from './config/cli-args.js';
+import { loadServerConfig } from './config/jenkins-config.js';
+import { loadTransportConfig } from './config/transport-config.js';
 import { startMcpServer } from './server/mcp-server.js';
-import type { JenkinsConfig } from './types/jenkins.js';
+import type { JenkinsServerConfig, TransportConfig } from './types/jenkins.js';
 import { createLogger } from './utils/logger.js';
 
 /**
@@ -13,18 +15,21 @@ import { createLogger } from './utils/logger.js';
 async function main(): Promise<void> {
   const logger = createLogger('jenkins-mcp-server');
 
-  let config: JenkinsConfig;
+  let config: JenkinsServerConfig;
+  let transport: TransportConfig;
   try {
-    config = loadJenkinsConfig();
+    const options = parseCliArgs(process.argv.slice(2));
+    config = loadServerConfig(process.env, options.configPath ?? process.env.JENKINS_MCP_CONFIG);
+    transport = loadTransportConfig(options);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown configuration error';
     logger.error('Configuration error', { message });
     process.exit(1);
   }
 
-  let client: JenkinsClient;
+  let instances: JenkinsInstances;
   try {
-    client = new JenkinsClient(config);
+    instances = new JenkinsInstances(config.instances, config.defaultInstance);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown Jenkins client error';
     logger.error('Failed to initialize Jenkins client', { message });
@@ -34,8 +39,9 @@ async function main(): Promise<void> {
   try {
     await startMcpServer({
       config,
-      client,
+      instances,
       logger,
+      transport,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown startup error';
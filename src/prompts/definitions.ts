@@ -0,0 +1,82 @@
+/**
+ * MCP prompt definitions.
+ * Target runtime: Node.js (ESM).
+ */
+
+/**
+ * Prompt argument as advertised through prompts/list.
+ */
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * MCP prompt definition.
+ * `tools` lists the tools whose data the prompt embeds; the prompt is hidden when any
+ * of them is disabled by the tool policy.
+ */
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  tools: string[];
+}
+
+const instanceArgument: PromptArgumentDefinition = {
+  name: 'instance',
+  description:
+    'Name of the Jenkins instance (optional; defaults to the configured default instance)',
+};
+
+export const prompts: PromptDefinition[] = [
+  {
+    name: 'diagnose_failed_build',
+    title: 'Diagnose a failed build',
+    description:
+      'Find the root cause of a failed build from its details, console tail, failed tests and changes',
+    arguments: [
+      {
+        name: 'fullName',
+        description: 'Full name of the job (e.g. "folder/job")',
+        required: true,
+      },
+      {
+        name: 'buildNumber',
+        description: 'Build number (optional; defaults to the last failed build)',
+      },
+      instanceArgument,
+    ],
+    tools: [
+      'get_item',
+      'get_build',
+      'get_build_console_chunk',
+      'get_build_test_report',
+      'get_build_changes',
+    ],
+  },
+  {
+    name: 'summarize_job_health',
+    title: 'Summarize job health',
+    description: 'Summarize recent results, durations and test trends of a job',
+    arguments: [
+      {
+        name: 'fullName',
+        description: 'Full name of the job (e.g. "folder/job")',
+        required: true,
+      },
+      instanceArgument,
+    ],
+    tools: ['get_item', 'get_build_test_report', 'find_flaky_tests'],
+  },
+  {
+    name: 'explain_queue_backlog',
+    title: 'Explain the build queue backlog',
+    description:
+      'Explain why builds are waiting, using the queue, running builds and node capacity',
+    arguments: [instanceArgument],
+    tools: ['get_all_queue_items', 'get_running_builds', 'get_all_nodes'],
+  },
+];
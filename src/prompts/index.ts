@@ -0,0 +1,10 @@
+/**
+ * Prompts barrel.
+ * Re-exports prompt definitions and rendering helpers.
+ * Target runtime: Node.js (ESM).
+ */
+
+export type { PromptArgumentDefinition, PromptDefinition } from './definitions.js';
+export { prompts } from './definitions.js';
+export type { PromptResult } from './registry.js';
+export { getEnabledPrompts, getPrompt } from './registry.js';
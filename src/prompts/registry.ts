@@ -0,0 +1,346 @@
+/**
+ * Prompt rendering.
+ * Each prompt pre-fetches Jenkins data and embeds it in the prompt message.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { JenkinsInstances } from '../client/instances.js';
+import type { JenkinsClient } from '../client/jenkins.js';
+import { handleGetBuildChanges } from '../tools/handlers/changes.js';
+import { handleFindFlakyTests, handleGetBuildTestReport } from '../tools/handlers/tests.js';
+import { getToolDisabledReason, toMcpError, tools } from '../tools/index.js';
+import type { JenkinsBuild, ToolPolicy } from '../types/jenkins.js';
+import { normalizeOptionalString } from '../utils/validation.js';
+import { type PromptDefinition, prompts } from './definitions.js';
+
+/**
+ * Console bytes embedded by diagnose_failed_build.
+ */
+const CONSOLE_TAIL_BYTES = 32 * 1024;
+
+/**
+ * Builds summarized by summarize_job_health.
+ */
+const HEALTH_BUILD_COUNT = 20;
+
+/**
+ * Rendered prompt returned by prompts/get.
+ */
+export type PromptResult = {
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+};
+
+/**
+ * Prompt renderer signature.
+ */
+type PromptRenderer = (
+  client: JenkinsClient,
+  args: Record<string, string | undefined>
+) => Promise<PromptResult>;
+
+const renderers: Record<string, PromptRenderer> = {
+  diagnose_failed_build: renderDiagnoseFailedBuild,
+  summarize_job_health: renderSummarizeJobHealth,
+  explain_queue_backlog: renderExplainQueueBacklog,
+};
+
+/**
+ * Get the prompts whose tools are all enabled by the policy.
+ * @param {ToolPolicy} [policy] - Server tool policy.
+ * @returns {PromptDefinition[]} Enabled prompts.
+ */
+export function getEnabledPrompts(policy: ToolPolicy = {}): PromptDefinition[] {
+  return prompts.filter((prompt) => !getPromptDisabledReason(prompt, policy));
+}
+
+/**
+ * Render a prompt with pre-fetched Jenkins data.
+ * @param {JenkinsInstances} instances - Configured Jenkins instances.
+ * @param {string} name - Prompt name.
+ * @param {Record<string, string>} [args] - Prompt arguments.
+ * @param {ToolPolicy} [policy] - Server tool policy.
+ * @returns {Promise<PromptResult>} Prompt description and messages.
+ * @throws {McpError} When the prompt is unknown or disabled, arguments are invalid or Jenkins fails.
+ */
+export async function getPrompt(
+  instances: JenkinsInstances,
+  name: string,
+  args: Record<string, string> = {},
+  policy: ToolPolicy = {}
+): Promise<PromptResult> {
+  const prompt = prompts.find((candidate) => candidate.name === name);
+  const render = renderers[name];
+  if (!prompt || !render) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const instanceName = normalizeOptionalString(args.instance);
+  let client: JenkinsClient;
+  try {
+    client = instances.get(instanceName);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown instance';
+    throw new McpError(ErrorCode.InvalidParams, message);
+  }
+
+  const disabledReason =
+    getPromptDisabledReason(prompt, policy) ??
+    getPromptDisabledReason(prompt, instances.getToolPolicy(instanceName));
+  if (disabledReason) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Prompt ${name} is disabled by server configuration: ${disabledReason}`
+    );
+  }
+
+  for (const argument of prompt.arguments) {
+    if (argument.required && !normalizeOptionalString(args[argument.name])) {
+      throw new McpError(ErrorCode.InvalidParams, `${argument.name} is required`);
+    }
+  }
+
+  try {
+    return await render(client, args);
+  } catch (error) {
+    throw await toMcpError(error, `Failed to render prompt ${name}`, {
+      client,
+      fullName: args.fullName,
+    });
+  }
+}
+
+async function renderDiagnoseFailedBuild(
+  client: JenkinsClient,
+  args: Record<string, string | undefined>
+): Promise<PromptResult> {
+  const fullName = (args.fullName ?? '').trim();
+  const item = await client.getItem(fullName);
+
+  let buildNumber = item.lastFailedBuild?.number;
+  if (normalizeOptionalString(args.buildNumber)) {
+    buildNumber = Number(args.buildNumber);
+    if (!Number.isInteger(buildNumber) || buildNumber <= 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'buildNumber must be a positive integer');
+    }
+  }
+  if (!buildNumber) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${fullName} has no failed builds; pass buildNumber to diagnose a specific build`
+    );
+  }
+
+  const lastSuccessful = item.lastSuccessfulBuild;
+  const [build, consoleTail, failedTests, changes, lastSuccessfulBuild] = await Promise.all([
+    client.getBuild(fullName, buildNumber),
+    attempt(() =>
+      client.getBuildConsoleChunk(fullName, buildNumber, {
+        mode: 'tail',
+        maxBytes: CONSOLE_TAIL_BYTES,
+      })
+    ),
+    attempt(() =>
+      handleGetBuildTestReport(client, {
+        fullName,
+        buildNumber,
+        onlyFailures: true,
+        limit: 20,
+        stackTraceLines: 15,
+      })
+    ),
+    attempt(() =>
+      handleGetBuildChanges(client, {
+        fullName,
+        buildNumber,
+        since:
+          lastSuccessful && lastSuccessful.number < buildNumber ? lastSuccessful.number : undefined,
+      })
+    ),
+    lastSuccessful && lastSuccessful.number !== buildNumber
+      ? attempt(() => client.getBuild(fullName, lastSuccessful.number))
+      : Promise.resolve(undefined),
+  ]);
+
+  const consoleText =
+    'error' in consoleTail
+      ? consoleTail
+      : `${consoleTail.truncated ? `[last ${CONSOLE_TAIL_BYTES} bytes]\n` : ''}${consoleTail.text}`;
+
+  const text = [
+    `Diagnose why Jenkins build ${fullName} #${buildNumber} failed.`,
+    '',
+    'Using the data below:',
+    '1. Identify the most likely root cause and quote the log lines or test failures that show it.',
+    '2. Classify it as a code change, a test problem (possibly flaky), or an infrastructure/agent problem.',
+    '3. Point to the commits or authors most likely involved, if any.',
+    '4. Suggest concrete next steps to fix or confirm the cause.',
+    'Say so explicitly when the data is not enough to be sure.',
+    '',
+    section('Build', summarizeBuild(build)),
+    section(
+      'Last successful build',
+      lastSuccessfulBuild === undefined ? 'None recorded' : summarizeBuild(lastSuccessfulBuild)
+    ),
+    section('Console output (tail)', consoleText, 'text'),
+    section('Failed tests', failedTests),
+    section(
+      lastSuccessful && lastSuccessful.number < buildNumber
+        ? `Changes since #${lastSuccessful.number}`
+        : 'Changes in this build',
+      changes
+    ),
+  ].join('\n');
+
+  return {
+    description: `Diagnose failed build ${fullName} #${buildNumber}`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function renderSummarizeJobHealth(
+  client: JenkinsClient,
+  args: Record<string, string | undefined>
+): Promise<PromptResult> {
+  const fullName = (args.fullName ?? '').trim();
+  const item = await client.getItem(fullName);
+  const builds = (item.builds ?? [])
+    .sort((a, b) => b.number - a.number)
+    .slice(0, HEALTH_BUILD_COUNT);
+
+  const completed = builds.filter((build) => !build.building);
+  const results: Record<string, number> = {};
+  for (const build of completed) {
+    const result = build.result ?? 'UNKNOWN';
+    results[result] = (results[result] ?? 0) + 1;
+  }
+  const durations = completed
+    .map((build) => build.duration ?? 0)
+    .filter((duration) => duration > 0);
+
+  const lastCompleted = completed[0];
+  const [lastTestReport, flakyTests] = await Promise.all([
+    lastCompleted
+      ? attempt(() =>
+          handleGetBuildTestReport(client, {
+            fullName,
+            buildNumber: lastCompleted.number,
+            onlyFailures: true,
+            limit: 10,
+            stackTraceLines: 0,
+          })
+        )
+      : Promise.resolve(undefined),
+    attempt(() => handleFindFlakyTests(client, { fullName, builds: 10, limit: 10 })),
+  ]);
+
+  const text = [
+    `Summarize the health of Jenkins job ${fullName}.`,
+    '',
+    'Using the data below, report:',
+    '- the current state and whether the job is stable, flaky or broken,',
+    '- the success rate and any failure streak in the recent builds,',
+    '- duration trends (getting slower or faster),',
+    '- failing or flaky tests worth attention,',
+    '- a short list of recommended actions.',
+    'Keep it brief enough for a stand-up update.',
+    '',
+    section('Job', {
+      fullName: item.fullName,
+      type: item._class,
+      color: item.color,
+      buildable: item.buildable,
+      lastBuild: item.lastBuild?.number,
+      lastSuccessfulBuild: item.lastSuccessfulBuild?.number,
+      lastFailedBuild: item.lastFailedBuild?.number,
+    }),
+    section('Recent build statistics', {
+      builds: builds.length,
+      running: builds.length - completed.length,
+      results,
+      averageDurationMs: durations.length
+        ? Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length)
+        : undefined,
+      minDurationMs: durations.length ? Math.min(...durations) : undefined,
+      maxDurationMs: durations.length ? Math.max(...durations) : undefined,
+    }),
+    section('Recent builds (newest first)', builds.map(summarizeBuild)),
+    section(
+      lastCompleted ? `Failed tests in #${lastCompleted.number}` : 'Failed tests',
+      lastTestReport ?? 'No completed builds'
+    ),
+    section('Flaky tests (last 10 builds)', flakyTests),
+  ].join('\n');
+
+  return {
+    description: `Summarize health of ${fullName}`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function renderExplainQueueBacklog(client: JenkinsClient): Promise<PromptResult> {
+  const [queue, running, nodes] = await Promise.all([
+    client.getAllQueueItems(),
+    attempt(() => client.getRunningBuilds()),
+    attempt(() => client.getAllNodes()),
+  ]);
+
+  const text = [
+    'Explain the current Jenkins build queue backlog.',
+    '',
+    'Using the data below:',
+    '- group the waiting items by the reason Jenkins gives ("why"),',
+    '- say whether the backlog comes from busy executors, offline nodes, missing labels,',
+    '  blocked or throttled jobs, or quiet periods,',
+    '- call out stuck items and long-running builds that hold executors,',
+    '- suggest what an engineer or admin could do to drain the queue.',
+    'If the queue is empty, say so and summarize executor capacity instead.',
+    '',
+    section(`Queue (${queue.length} items)`, queue),
+    section('Running builds', running),
+    section('Nodes', nodes),
+  ].join('\n');
+
+  return {
+    description: 'Explain the build queue backlog',
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+function getPromptDisabledReason(prompt: PromptDefinition, policy: ToolPolicy): string | undefined {
+  for (const toolName of prompt.tools) {
+    const tool = tools.find((candidate) => candidate.name === toolName);
+    const reason = tool ? getToolDisabledReason(tool, policy) : undefined;
+    if (reason) return `${toolName} is disabled because ${reason}`;
+  }
+  return undefined;
+}
+
+/**
+ * Run an optional fetch; failures are embedded in the prompt instead of failing it.
+ */
+async function attempt<T>(fetch: () => Promise<T>): Promise<T | { error: string }> {
+  try {
+    return await fetch();
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function summarizeBuild(build: JenkinsBuild | { error: string }): unknown {
+  if ('error' in build) return build;
+  return {
+    number: build.number,
+    result: build.building ? 'BUILDING' : build.result,
+    timestamp: build.timestamp ? new Date(build.timestamp).toISOString() : undefined,
+    durationMs: build.duration,
+    url: build.url,
+  };
+}
+
+function section(title: string, data: unknown, format: 'json' | 'text' = 'json'): string {
+  const body = format === 'text' && typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  return `## ${title}\n\`\`\`${format}\n${body}\n\`\`\`\n`;
+}
@@ -0,0 +1,74 @@
+/**
+ * MCP resource template definitions.
+ * Target runtime: Node.js (ESM).
+ *
+ * Every URI accepts an optional `?instance=<name>` query to read from a non-default
+ * Jenkins instance. Job full names are percent-encoded ("folder%2Fjob").
+ */
+
+/**
+ * Kinds of Jenkins objects exposed as resources.
+ */
+export type JenkinsResourceKind = 'job' | 'build' | 'console' | 'config' | 'node';
+
+/**
+ * MCP resource template with the tool that guards it.
+ * Reading a resource is refused when its tool is disabled by the tool policy.
+ */
+export interface ResourceTemplateDefinition {
+  kind: JenkinsResourceKind;
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  tool: string;
+}
+
+export const resourceTemplates: ResourceTemplateDefinition[] = [
+  {
+    kind: 'job',
+    uriTemplate: 'jenkins://job/{fullName}',
+    name: 'job',
+    title: 'Jenkins job',
+    description: 'Job or folder details (status color, last builds)',
+    mimeType: 'application/json',
+    tool: 'get_item',
+  },
+  {
+    kind: 'build',
+    uriTemplate: 'jenkins://job/{fullName}/build/{number}',
+    name: 'build',
+    title: 'Jenkins build',
+    description: 'Build details (result, duration, parameters, causes)',
+    mimeType: 'application/json',
+    tool: 'get_build',
+  },
+  {
+    kind: 'console',
+    uriTemplate: 'jenkins://job/{fullName}/build/{number}/console',
+    name: 'build-console',
+    title: 'Jenkins build console log',
+    description: 'Console output of a build (the last 1 MiB for long logs)',
+    mimeType: 'text/plain',
+    tool: 'get_build_console_output',
+  },
+  {
+    kind: 'config',
+    uriTemplate: 'jenkins://job/{fullName}/config.xml',
+    name: 'job-config',
+    title: 'Jenkins job config.xml',
+    description: 'XML configuration of a job or folder',
+    mimeType: 'application/xml',
+    tool: 'get_item_config',
+  },
+  {
+    kind: 'node',
+    uriTemplate: 'jenkins://node/{name}',
+    name: 'node',
+    title: 'Jenkins node',
+    description: 'Agent/node details (online state, executors, labels)',
+    mimeType: 'application/json',
+    tool: 'get_node',
+  },
+];
@@ -0,0 +1,19 @@
+/**
+ * Resources barrel.
+ * Re-exports resource templates, URI helpers, read/list helpers and subscriptions.
+ * Target runtime: Node.js (ESM).
+ */
+
+export type { JenkinsResourceKind, ResourceTemplateDefinition } from './definitions.js';
+export { resourceTemplates } from './definitions.js';
+export type { JenkinsResource, JenkinsResourceContents, ResolvedResource } from './registry.js';
+export {
+  getEnabledResourceTemplates,
+  listResources,
+  RESOURCE_PAGE_SIZE,
+  readResource,
+  resolveResource,
+} from './registry.js';
+export { MAX_SUBSCRIPTIONS, ResourceSubscriptions } from './subscriptions.js';
+export type { JenkinsResourceRef } from './uri.js';
+export { formatResourceUri, parseResourceUri } from './uri.js';
@@ -0,0 +1,220 @@
+/**
+ * Resource listing and reading.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { JenkinsInstances } from '../client/instances.js';
+import type { JenkinsClient } from '../client/jenkins.js';
+import { getToolDisabledReason, toMcpError, tools } from '../tools/index.js';
+import type { ToolPolicy } from '../types/jenkins.js';
+import {
+  type JenkinsResourceKind,
+  type ResourceTemplateDefinition,
+  resourceTemplates,
+} from './definitions.js';
+import { formatResourceUri, type JenkinsResourceRef, parseResourceUri } from './uri.js';
+
+/**
+ * Number of jobs returned per resources/list page.
+ */
+export const RESOURCE_PAGE_SIZE = 50;
+
+/**
+ * Console resources return at most this many bytes from the end of the log.
+ */
+const CONSOLE_RESOURCE_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Resource entry returned by resources/list.
+ */
+export interface JenkinsResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * Content returned by resources/read.
+ */
+export interface JenkinsResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Resource URI resolved to its template and Jenkins client.
+ */
+export interface ResolvedResource {
+  ref: JenkinsResourceRef;
+  template: ResourceTemplateDefinition;
+  client: JenkinsClient;
+}
+
+/**
+ * Get resource templates whose guarding tool is enabled.
+ * @param {ToolPolicy} [policy] - Server tool policy.
+ * @returns {ResourceTemplateDefinition[]} Enabled templates.
+ */
+export function getEnabledResourceTemplates(policy: ToolPolicy = {}): ResourceTemplateDefinition[] {
+  return resourceTemplates.filter((template) => !getDisabledReason(template.tool, policy));
+}
+
+/**
+ * List job resources of the default instance, one page at a time.
+ * @param {JenkinsInstances} instances - Configured Jenkins instances.
+ * @param {string} [cursor] - Cursor from a previous page.
+ * @param {ToolPolicy} [policy] - Server tool policy.
+ * @returns {Promise<{ resources: JenkinsResource[]; nextCursor?: string }>} One page of resources.
+ * @throws {McpError} When the cursor is invalid or Jenkins cannot be reached.
+ */
+export async function listResources(
+  instances: JenkinsInstances,
+  cursor?: string,
+  policy: ToolPolicy = {}
+): Promise<{ resources: JenkinsResource[]; nextCursor?: string }> {
+  const start = parseCursor(cursor);
+  const jobTool = findTemplate('job')?.tool ?? '';
+  if (getDisabledReason(jobTool, policy) || getDisabledReason(jobTool, instances.getToolPolicy())) {
+    return { resources: [] };
+  }
+
+  let page: Awaited<ReturnType<JenkinsClient['getItemsPage']>>;
+  try {
+    page = await instances.get().getItemsPage([start], RESOURCE_PAGE_SIZE);
+  } catch (error) {
+    throw await toMcpError(error, 'Failed to list resources');
+  }
+
+  const resources = page.items.map((item) => ({
+    uri: formatResourceUri({ kind: 'job', fullName: item.fullName }),
+    name: item.fullName,
+    title: item.name,
+    description: describeItem(item._class, item.color),
+    mimeType: 'application/json',
+  }));
+
+  return {
+    resources,
+    nextCursor: page.next ? String(page.next[0]) : undefined,
+  };
+}
+
+/**
+ * Read a Jenkins resource.
+ * @param {JenkinsInstances} instances - Configured Jenkins instances.
+ * @param {string} uri - Resource URI.
+ * @param {ToolPolicy} [policy] - Server tool policy.
+ * @returns {Promise<{ contents: JenkinsResourceContents[] }>} Resource contents.
+ * @throws {McpError} When the URI is unknown, the resource is disabled or the read fails.
+ */
+export async function readResource(
+  instances: JenkinsInstances,
+  uri: string,
+  policy: ToolPolicy = {}
+): Promise<{ contents: JenkinsResourceContents[] }> {
+  const { ref, template, client } = resolveResource(instances, uri, policy);
+
+  try {
+    const text = await readResourceText(client, ref);
+    return { contents: [{ uri, mimeType: template.mimeType, text }] };
+  } catch (error) {
+    throw await toMcpError(error, `Failed to read resource ${uri}`, {
+      client,
+      fullName: ref.fullName,
+      nodeName: ref.nodeName,
+    });
+  }
+}
+
+/**
+ * Parse a resource URI, resolve its instance and check the tool policy.
+ * @param {JenkinsInstances} instances - Configured Jenkins instances.
+ * @param {string} uri - Resource URI.
+ * @param {ToolPolicy} [policy] - Server tool policy.
+ * @returns {ResolvedResource} Parsed reference, template and client.
+ * @throws {McpError} When the URI or instance is unknown or the resource is disabled.
+ */
+export function resolveResource(
+  instances: JenkinsInstances,
+  uri: string,
+  policy: ToolPolicy = {}
+): ResolvedResource {
+  const ref = parseResourceUri(uri);
+  const template = ref && findTemplate(ref.kind);
+  if (!ref || !template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+  }
+
+  let client: JenkinsClient;
+  try {
+    client = instances.get(ref.instance);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown instance';
+    throw new McpError(ErrorCode.InvalidParams, message);
+  }
+
+  const disabledReason =
+    getDisabledReason(template.tool, policy) ??
+    getDisabledReason(template.tool, instances.getToolPolicy(ref.instance));
+  if (disabledReason) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Resource ${uri} is disabled by server configuration: ${template.tool} is disabled because ${disabledReason}`
+    );
+  }
+
+  return { ref, template, client };
+}
+
+async function readResourceText(client: JenkinsClient, ref: JenkinsResourceRef): Promise<string> {
+  const fullName = ref.fullName ?? '';
+  const buildNumber = ref.buildNumber ?? 0;
+
+  switch (ref.kind) {
+    case 'job':
+      return JSON.stringify(await client.getItem(fullName), null, 2);
+    case 'build':
+      return JSON.stringify(await client.getBuild(fullName, buildNumber), null, 2);
+    case 'console': {
+      const chunk = await client.getBuildConsoleChunk(fullName, buildNumber, {
+        mode: 'tail',
+        maxBytes: CONSOLE_RESOURCE_MAX_BYTES,
+      });
+      return chunk.truncated
+        ? `[Showing the last ${CONSOLE_RESOURCE_MAX_BYTES} bytes; use get_build_console_chunk for earlier output]\n${chunk.text}`
+        : chunk.text;
+    }
+    case 'config':
+      return await client.getItemConfig(fullName);
+    case 'node':
+      return JSON.stringify(await client.getNode(ref.nodeName ?? ''), null, 2);
+  }
+}
+
+function findTemplate(kind: JenkinsResourceKind): ResourceTemplateDefinition | undefined {
+  return resourceTemplates.find((template) => template.kind === kind);
+}
+
+function getDisabledReason(toolName: string, policy: ToolPolicy): string | undefined {
+  const tool = tools.find((candidate) => candidate.name === toolName);
+  return tool ? getToolDisabledReason(tool, policy) : undefined;
+}
+
+function parseCursor(cursor: string | undefined): number {
+  if (cursor === undefined || cursor === '') return 0;
+  const start = Number(cursor);
+  if (!Number.isInteger(start) || start < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return start;
+}
+
+function describeItem(className: string, color?: string): string {
+  const type = className.split('.').pop() ?? className;
+  return color ? `${type} (status: ${color})` : type;
+}
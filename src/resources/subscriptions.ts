@@ -0,0 +1,201 @@
+/**
+ * Resource subscriptions.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ *
+ * Subscribed build and job resources are polled in the background and the client is sent
+ * notifications/resources/updated when a running build finishes or a job starts a new build.
+ * Each MCP session owns one ResourceSubscriptions and closes it when the session ends.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { JenkinsInstances } from '../client/instances.js';
+import type { JenkinsClient } from '../client/jenkins.js';
+import type { SubscriptionConfig, ToolPolicy } from '../types/jenkins.js';
+import type { Logger } from '../utils/logger.js';
+import { resolveResource } from './registry.js';
+import type { JenkinsResourceRef } from './uri.js';
+
+/**
+ * Most subscriptions one session may hold, to bound the load on Jenkins.
+ */
+export const MAX_SUBSCRIPTIONS = 100;
+
+/**
+ * Build state compared between polls.
+ */
+interface SubscriptionState {
+  /** Build number (build resources) or last build number (job resources) */
+  buildNumber?: number;
+  building: boolean;
+}
+
+interface Subscription {
+  ref: JenkinsResourceRef;
+  client: JenkinsClient;
+  state: SubscriptionState;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Polls subscribed build and job resources and reports changes.
+ */
+export class ResourceSubscriptions {
+  private readonly subscriptions = new Map<string, Subscription>();
+  private readonly instances: JenkinsInstances;
+  private readonly notify: (uri: string) => Promise<void>;
+  private readonly logger: Logger;
+  private readonly config: SubscriptionConfig;
+  private readonly policy: ToolPolicy;
+  private closed = false;
+
+  /**
+   * @param {JenkinsInstances} instances - Configured Jenkins instances.
+   * @param {(uri: string) => Promise<void>} notify - Sends notifications/resources/updated.
+   * @param {Logger} logger - Structured logger.
+   * @param {SubscriptionConfig} config - Poll intervals.
+   * @param {ToolPolicy} [policy] - Server tool policy.
+   */
+  constructor(
+    instances: JenkinsInstances,
+    notify: (uri: string) => Promise<void>,
+    logger: Logger,
+    config: SubscriptionConfig,
+    policy: ToolPolicy = {}
+  ) {
+    this.instances = instances;
+    this.notify = notify;
+    this.logger = logger;
+    this.config = config;
+    this.policy = policy;
+  }
+
+  /**
+   * Number of active subscriptions.
+   */
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Start watching a build or job resource. Subscribing twice to the same URI is a no-op.
+   * @param {string} uri - Resource URI.
+   * @returns {Promise<void>} Resolves once the current state is recorded.
+   * @throws {McpError} When the resource cannot be subscribed to or Jenkins fails.
+   */
+  async subscribe(uri: string): Promise<void> {
+    if (this.subscriptions.has(uri)) return;
+
+    const { ref, client } = resolveResource(this.instances, uri, this.policy);
+    if (ref.kind !== 'build' && ref.kind !== 'job') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Only job and build resources support subscriptions: ${uri}`
+      );
+    }
+    if (this.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Subscription limit reached (${MAX_SUBSCRIPTIONS}); unsubscribe from other resources first`
+      );
+    }
+
+    let state: SubscriptionState;
+    try {
+      state = await fetchState(client, ref);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new McpError(ErrorCode.InternalError, `Failed to subscribe to ${uri}: ${message}`);
+    }
+
+    // The session may have ended, or the same URI been subscribed, while Jenkins answered.
+    if (this.closed || this.subscriptions.has(uri)) return;
+
+    const subscription: Subscription = { ref, client, state };
+    this.subscriptions.set(uri, subscription);
+    this.schedule(uri, subscription);
+    this.logger.debug('Resource subscribed', { uri, subscriptions: this.subscriptions.size });
+  }
+
+  /**
+   * Stop watching a resource. Unknown URIs are ignored.
+   * @param {string} uri - Resource URI.
+   */
+  unsubscribe(uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) return;
+
+    clearTimeout(subscription.timer);
+    this.subscriptions.delete(uri);
+    this.logger.debug('Resource unsubscribed', { uri, subscriptions: this.subscriptions.size });
+  }
+
+  /**
+   * Stop every poller; later subscribe calls are ignored.
+   */
+  close(): void {
+    this.closed = true;
+    for (const subscription of this.subscriptions.values()) {
+      clearTimeout(subscription.timer);
+    }
+    this.subscriptions.clear();
+  }
+
+  private schedule(uri: string, subscription: Subscription): void {
+    // A finished build cannot change any more, so it is not polled again.
+    if (subscription.ref.kind === 'build' && !subscription.state.building) return;
+
+    const seconds =
+      subscription.ref.kind === 'build'
+        ? this.config.buildPollInterval
+        : this.config.jobPollInterval;
+    subscription.timer = setTimeout(() => {
+      void this.poll(uri, subscription);
+    }, seconds * 1000);
+    subscription.timer.unref();
+  }
+
+  private async poll(uri: string, subscription: Subscription): Promise<void> {
+    try {
+      const state = await fetchState(subscription.client, subscription.ref);
+      if (this.subscriptions.get(uri) !== subscription) return;
+
+      const previous = subscription.state;
+      subscription.state = state;
+      if (hasChanged(previous, state)) {
+        this.logger.debug('Resource updated', { uri });
+        await this.notify(uri);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn('Resource subscription poll failed', { uri, message });
+    }
+
+    if (this.subscriptions.get(uri) === subscription) {
+      this.schedule(uri, subscription);
+    }
+  }
+}
+
+async function fetchState(
+  client: JenkinsClient,
+  ref: JenkinsResourceRef
+): Promise<SubscriptionState> {
+  const fullName = ref.fullName ?? '';
+
+  if (ref.kind === 'build') {
+    const build = await client.getBuild(fullName, ref.buildNumber ?? 0);
+    return { buildNumber: build.number, building: Boolean(build.building) };
+  }
+
+  const item = await client.getItem(fullName);
+  return { buildNumber: item.lastBuild?.number, building: Boolean(item.lastBuild?.building) };
+}
+
+/**
+ * A resource changed when its build finished or, for jobs, a new build appeared.
+ */
+function hasChanged(previous: SubscriptionState, next: SubscriptionState): boolean {
+  if (next.buildNumber !== previous.buildNumber) return true;
+  return previous.building && !next.building;
+}
@@ -0,0 +1,96 @@
+/**
+ * Jenkins resource URI parsing and formatting.
+ * Target runtime: Node.js (ESM).
+ *
+ * URIs: jenkins://job/{fullName}[/build/{number}[/console] | /config.xml], jenkins://node/{name}
+ * with an optional `?instance=<name>` query.
+ */
+
+import type { JenkinsResourceKind } from './definitions.js';
+
+/**
+ * Parsed Jenkins resource URI.
+ */
+export interface JenkinsResourceRef {
+  kind: JenkinsResourceKind;
+  /** Job full name (job, build, console and config resources) */
+  fullName?: string;
+  buildNumber?: number;
+  /** Node name (node resources) */
+  nodeName?: string;
+  instance?: string;
+}
+
+const SCHEME = 'jenkins:';
+
+/**
+ * Parse a Jenkins resource URI.
+ * @param {string} uri - Resource URI.
+ * @returns {JenkinsResourceRef | undefined} Parsed reference, or undefined for unknown URIs.
+ */
+export function parseResourceUri(uri: string): JenkinsResourceRef | undefined {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== SCHEME) return undefined;
+
+  const instance = url.searchParams.get('instance')?.trim() || undefined;
+  const path = url.pathname.replace(/^\/+/, '');
+  if (!path) return undefined;
+
+  if (url.host === 'node') {
+    const nodeName = decode(path);
+    return nodeName ? { kind: 'node', nodeName, instance } : undefined;
+  }
+  if (url.host !== 'job') return undefined;
+
+  // Match suffixes from the end so unencoded folder slashes still parse.
+  const build = /^(.+)\/build\/(\d+)(\/console)?$/.exec(path);
+  if (build) {
+    const fullName = decode(build[1]);
+    const buildNumber = Number.parseInt(build[2], 10);
+    if (!fullName || buildNumber <= 0) return undefined;
+    return { kind: build[3] ? 'console' : 'build', fullName, buildNumber, instance };
+  }
+
+  const config = /^(.+)\/config\.xml$/.exec(path);
+  const fullName = decode(config ? config[1] : path);
+  if (!fullName) return undefined;
+  return { kind: config ? 'config' : 'job', fullName, instance };
+}
+
+/**
+ * Format a Jenkins resource URI.
+ * @param {JenkinsResourceRef} ref - Resource reference.
+ * @returns {string} Resource URI.
+ */
+export function formatResourceUri(ref: JenkinsResourceRef): string {
+  const query = ref.instance ? `?instance=${encodeURIComponent(ref.instance)}` : '';
+
+  if (ref.kind === 'node') {
+    return `jenkins://node/${encodeURIComponent(ref.nodeName ?? '')}${query}`;
+  }
+
+  const job = `jenkins://job/${encodeURIComponent(ref.fullName ?? '')}`;
+  switch (ref.kind) {
+    case 'build':
+      return `${job}/build/${ref.buildNumber}${query}`;
+    case 'console':
+      return `${job}/build/${ref.buildNumber}/console${query}`;
+    case 'config':
+      return `${job}/config.xml${query}`;
+    default:
+      return `${job}${query}`;
+  }
+}
+
+function decode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value).replace(/^\/+|\/+$/g, '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
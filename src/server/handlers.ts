@@ -1,40 +1,90 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import type { JenkinsClient } from '../client/jenkins.js';
-import { executeTool, tools } from '../tools/index.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { JenkinsInstances } from '../client/instances.js';
+import { DEFAULT_SUBSCRIPTION_CONFIG } from '../config/jenkins-config.js';
+import { getEnabledPrompts, getPrompt } from '../prompts/index.js';
+import {
+  getEnabledResourceTemplates,
+  listResources,
+  ResourceSubscriptions,
+  readResource,
+} from '../resources/index.js';
+import { executeTool, getEnabledTools, type ToolContext, tools } from '../tools/index.js';
+import type { SubscriptionConfig, ToolPolicy } from '../types/jenkins.js';
 import type { Logger } from '../utils/logger.js';
+import { isPlainObject } from '../utils/validation.js';
 
 /**
- * Register MCP request handlers for tool listing and execution.
+ * Register MCP request handlers for tools, resources and prompts.
  * @param {McpServer} mcpServer - MCP server instance.
- * @param {JenkinsClient} jenkinsClient - Jenkins API client.
+ * @param {JenkinsInstances} instances - Configured Jenkins instances.
  * @param {Logger} logger - Structured logger.
+ * @param {ToolPolicy} [policy] - Tool policy applied to tools and the resources and prompts they back.
+ * @param {SubscriptionConfig} [subscriptionConfig] - Poll intervals for resource subscriptions.
  */
 export function registerHandlers(
   mcpServer: McpServer,
-  jenkinsClient: JenkinsClient,
-  logger: Logger
+  instances: JenkinsInstances,
+  logger: Logger,
+  policy: ToolPolicy = {},
+  subscriptionConfig: SubscriptionConfig = DEFAULT_SUBSCRIPTION_CONFIG
 ): void {
+  const subscriptions = new ResourceSubscriptions(
+    instances,
+    (uri) => mcpServer.server.sendResourceUpdated({ uri }),
+    logger,
+    subscriptionConfig,
+    policy
+  );
+  // Stop polling when the client disconnects or the HTTP session ends.
+  mcpServer.server.onclose = () => subscriptions.close();
+
   /**
    * Handler for listing available tools.
    */
   mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools };
+    return { tools: getEnabledTools(policy) };
   });
 
   /**
    * Handler for executing tools.
    */
-  mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+    const context: ToolContext = {
+      signal: extra.signal,
+      reportProgress:
+        progressToken === undefined
+          ? undefined
+          : (progress, total, message) =>
+              extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, total, message },
+              }),
+    };
 
     try {
       const result = await executeTool(
-        jenkinsClient,
+        instances,
         name,
         (args ?? {}) as Record<string, unknown>,
-        logger
+        logger,
+        policy,
+        context
       );
+      // Tools with an output schema also return the result as structuredContent.
+      const hasOutputSchema = tools.some((tool) => tool.name === name && tool.outputSchema);
       return {
         content: [
           {
@@ -42,6 +92,7 @@ export function registerHandlers(
             text: formatToolResult(result),
           },
         ],
+        ...(hasOutputSchema && isPlainObject(result) && { structuredContent: result }),
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -49,6 +100,98 @@ export function registerHandlers(
       throw error;
     }
   });
+
+  /**
+   * Handler for listing job resources (paged).
+   */
+  mcpServer.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return await listResources(instances, request.params?.cursor, policy);
+  });
+
+  /**
+   * Handler for listing resource templates.
+   */
+  mcpServer.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: getEnabledResourceTemplates(policy).map(
+        ({ uriTemplate, name, title, description, mimeType }) => ({
+          uriTemplate,
+          name,
+          title,
+          description,
+          mimeType,
+        })
+      ),
+    };
+  });
+
+  /**
+   * Handler for reading resources.
+   */
+  mcpServer.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+
+    try {
+      return await readResource(instances, uri, policy);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Resource read failed', { uri, message });
+      throw error;
+    }
+  });
+
+  /**
+   * Handler for subscribing to resource updates.
+   */
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+
+    try {
+      await subscriptions.subscribe(uri);
+      return {};
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Resource subscribe failed', { uri, message });
+      throw error;
+    }
+  });
+
+  /**
+   * Handler for unsubscribing from resource updates.
+   */
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  /**
+   * Handler for listing prompts.
+   */
+  mcpServer.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: getEnabledPrompts(policy).map(({ name, title, description, arguments: args }) => ({
+        name,
+        title,
+        description,
+        arguments: args,
+      })),
+    };
+  });
+
+  /**
+   * Handler for rendering prompts.
+   */
+  mcpServer.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      return await getPrompt(instances, name, args ?? {}, policy);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Prompt rendering failed', { promptName: name, message });
+      throw error;
+    }
+  });
 }
 
 function formatToolResult(result: unknown): string {
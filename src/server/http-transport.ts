@@ -0,0 +1,342 @@
+/**
+ * Streamable HTTP transport host.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ *
+ * Routes:
+ * - POST/GET/DELETE /mcp: MCP Streamable HTTP endpoint (one MCP server per session)
+ * - GET /healthz: liveness probe (no authentication)
+ *
+ * /mcp rejects requests whose Host or Origin header is not allowed (DNS rebinding protection).
+ * Sessions without requests for the idle timeout are closed, since clients that go away
+ * without a DELETE would otherwise keep their server and subscriptions alive.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import http from 'http';
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * Path of the MCP endpoint.
+ */
+export const MCP_HTTP_PATH = '/mcp';
+
+/**
+ * Largest accepted JSON-RPC request body.
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Host names accepted by default when listening on a loopback address.
+ */
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Longest pause between idle session sweeps.
+ */
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Options for the HTTP transport host.
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Bearer token required on /mcp; unset disables the check */
+  authToken?: string;
+  /**
+   * Host header names accepted on /mcp. Defaults to the loopback names when `host` is a
+   * loopback address; otherwise any Host is accepted.
+   */
+  allowedHosts?: string[];
+  /**
+   * Origins accepted on /mcp besides those of the allowed hosts. Without allowed hosts,
+   * an Origin must match the Host header.
+   */
+  allowedOrigins?: string[];
+  /** Seconds without requests after which a session is closed */
+  sessionIdleTimeout: number;
+}
+
+/**
+ * Open client session.
+ */
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** When the last request started or finished */
+  lastActivity: number;
+  /** Requests still being answered, including open SSE streams */
+  activeRequests: number;
+}
+
+/**
+ * Running HTTP transport host.
+ */
+export interface HttpTransportHandle {
+  /** Bound address (the port is resolved when 0 was requested) */
+  address: { host: string; port: number };
+  /** Stop accepting connections and close every session */
+  close(): Promise<void>;
+}
+
+/**
+ * Serve MCP over Streamable HTTP.
+ * Each client session gets its own MCP server from `createServer`.
+ * @param {() => McpServer} createServer - Factory for a fully registered MCP server.
+ * @param {HttpTransportOptions} options - Listen address and authentication.
+ * @param {Logger} logger - Structured logger.
+ * @returns {Promise<HttpTransportHandle>} Handle to the running host.
+ */
+export async function startHttpTransport(
+  createServer: () => McpServer,
+  options: HttpTransportOptions,
+  logger: Logger
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, HttpSession>();
+  const idleTimeoutMs = options.sessionIdleTimeout * 1000;
+
+  const allowedHosts =
+    options.allowedHosts ?? (isLoopbackHost(options.host) ? LOOPBACK_HOSTNAMES : undefined);
+
+  const handleMcpRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> => {
+    const rejected = checkHostAndOrigin(req, allowedHosts, options.allowedOrigins);
+    if (rejected) {
+      logger.warn('Rejected MCP request', { reason: rejected, host: req.headers.host });
+      sendJsonRpcError(res, 403, -32000, `Forbidden: ${rejected}`);
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = headerValue(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    if (body instanceof Error) {
+      sendJsonRpcError(res, body.message === 'Payload too large' ? 413 : 400, -32700, body.message);
+      return;
+    }
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      trackActivity(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActivity: Date.now(), activeRequests: 0 });
+        logger.info('MCP session opened', { sessionId: id, sessions: sessions.size });
+      },
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && sessions.delete(id)) {
+        logger.info('MCP session closed', { sessionId: id, sessions: sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const closeIdleSessions = (): void => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.activeRequests > 0 || now - session.lastActivity < idleTimeoutMs) continue;
+      sessions.delete(id);
+      logger.info('MCP session expired', { sessionId: id, sessions: sessions.size });
+      session.server.close().catch((error) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn('Failed to close idle MCP session', { sessionId: id, message });
+      });
+    }
+  };
+  const idleSweep = setInterval(
+    closeIdleSessions,
+    Math.min(idleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS)
+  );
+  idleSweep.unref();
+
+  const httpServer = http.createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (path === '/healthz') {
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+        return;
+      }
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (path !== MCP_HTTP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('HTTP request failed', { method: req.method, message });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const bound = httpServer.address();
+  const address = {
+    host: options.host,
+    port: typeof bound === 'object' && bound ? bound.port : options.port,
+  };
+
+  return {
+    address,
+    close: async () => {
+      clearInterval(idleSweep);
+      const open = [...sessions.values()];
+      sessions.clear();
+      await Promise.allSettled(open.map(({ server }) => server.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+/**
+ * Count a request against its session until the response closes.
+ */
+function trackActivity(session: HttpSession, res: http.ServerResponse): void {
+  session.activeRequests += 1;
+  session.lastActivity = Date.now();
+  res.once('close', () => {
+    session.activeRequests -= 1;
+    session.lastActivity = Date.now();
+  });
+}
+
+/**
+ * Whether a listen address only accepts local connections.
+ * @param {string} host - Listen host.
+ * @returns {boolean} True for localhost and loopback addresses.
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * Check the Host and Origin headers against the allowed values.
+ * @returns {string | undefined} Why the request is rejected, or undefined when it is allowed.
+ */
+function checkHostAndOrigin(
+  req: http.IncomingMessage,
+  allowedHosts: string[] | undefined,
+  allowedOrigins: string[] | undefined
+): string | undefined {
+  const host = req.headers.host?.toLowerCase();
+  const hostname = host && parseUrl(`http://${host}`)?.hostname;
+  if (allowedHosts && !(hostname && allowedHosts.includes(hostname))) {
+    return `Host ${host ?? '(missing)'} is not allowed`;
+  }
+
+  // Clients other than browsers send no Origin.
+  const origin = headerValue(req, 'origin');
+  if (origin === undefined) return undefined;
+  if (allowedOrigins?.includes(origin)) return undefined;
+
+  const originUrl = parseUrl(origin);
+  const allowed = allowedHosts
+    ? allowedHosts.includes(originUrl?.hostname ?? '')
+    : originUrl?.host === host;
+  return allowed ? undefined : `Origin ${origin} is not allowed`;
+}
+
+function parseUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+
+  const header = headerValue(req, 'authorization') ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return new Error('Payload too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return new Error('Parse error: invalid JSON');
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
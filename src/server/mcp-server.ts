@@ -1,11 +1,12 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import type { JenkinsClient } from '../client/jenkins.js';
+import type { JenkinsInstances } from '../client/instances.js';
 import { sanitizeUrl } from '../config/jenkins-config.js';
-import { tools } from '../tools/definitions.js';
-import type { JenkinsConfig } from '../types/jenkins.js';
+import { getEnabledTools, getUnknownPolicyTools } from '../tools/index.js';
+import type { JenkinsServerConfig, TransportConfig } from '../types/jenkins.js';
 import type { Logger } from '../utils/logger.js';
 import { registerHandlers } from './handlers.js';
+import { isLoopbackHost, MCP_HTTP_PATH, startHttpTransport } from './http-transport.js';
 
 /**
  * Options for creating the MCP server.
@@ -28,35 +29,90 @@ export function createMcpServer(options: McpServerOptions = {}): McpServer {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
     }
   );
 }
 
 /**
- * Start the MCP server with stdio transport and registered handlers.
+ * Start the MCP server on the configured transport (stdio by default).
  * @param {object} params - Startup parameters.
- * @param {JenkinsConfig} params.config - Jenkins configuration.
- * @param {JenkinsClient} params.client - Jenkins API client.
+ * @param {JenkinsServerConfig} params.config - Server configuration.
+ * @param {JenkinsInstances} params.instances - Configured Jenkins instances.
  * @param {Logger} params.logger - Structured logger.
  * @param {McpServerOptions} [params.serverOptions] - MCP server options.
- * @returns {Promise<void>} Resolves when server is connected.
+ * @param {TransportConfig} [params.transport] - Transport; defaults to stdio.
+ * @returns {Promise<void>} Resolves when server is connected (stdio) or listening (http).
  */
 export async function startMcpServer(params: {
-  config: JenkinsConfig;
-  client: JenkinsClient;
+  config: JenkinsServerConfig;
+  instances: JenkinsInstances;
   logger: Logger;
   serverOptions?: McpServerOptions;
+  transport?: TransportConfig;
 }): Promise<void> {
-  const { config, client, logger, serverOptions } = params;
+  const { config, instances, logger, serverOptions, transport = { type: 'stdio' } } = params;
 
-  const mcpServer = createMcpServer(serverOptions);
-  registerHandlers(mcpServer, client, logger);
+  const policy = config.toolPolicy;
+  const createServer = (): McpServer => {
+    const mcpServer = createMcpServer(serverOptions);
+    registerHandlers(mcpServer, instances, logger, policy, config.subscriptions);
+    return mcpServer;
+  };
 
-  const transport = new StdioServerTransport();
-  await mcpServer.connect(transport);
+  const unknownTools = getUnknownPolicyTools(policy);
+  if (unknownTools.length > 0) {
+    logger.warn('Tool policy references unknown tools', { tools: unknownTools });
+  }
+  for (const instance of config.instances) {
+    const unknownInstanceTools = getUnknownPolicyTools(instance.toolPolicy);
+    if (unknownInstanceTools.length > 0) {
+      logger.warn('Instance tool policy references unknown tools', {
+        instance: instance.name,
+        tools: unknownInstanceTools,
+      });
+    }
+  }
+
+  if (transport.type === 'http') {
+    if (!transport.authToken && !isLoopbackHost(transport.host)) {
+      logger.warn('HTTP transport is reachable from the network without authentication', {
+        host: transport.host,
+        hint: 'Set JENKINS_MCP_AUTH_TOKEN',
+      });
+    }
+
+    const handle = await startHttpTransport(createServer, transport, logger);
+    const shutdown = (): void => {
+      handle.close().finally(() => process.exit(0));
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
+    logger.info('Jenkins MCP Server listening', {
+      url: `http://${formatHost(handle.address.host)}:${handle.address.port}${MCP_HTTP_PATH}`,
+      authentication: transport.authToken ? 'bearer' : 'none',
+    });
+  } else {
+    await createServer().connect(new StdioServerTransport());
+    logger.info('Jenkins MCP Server started');
+  }
+
+  for (const instance of config.instances) {
+    logger.info('Connected to Jenkins', {
+      instance: instance.name,
+      url: sanitizeUrl(instance.url),
+      default: instance.name === config.defaultInstance,
+    });
+  }
+  logger.info('Available tools', {
+    count: getEnabledTools(policy).length,
+    readOnly: policy.readOnly ?? false,
+  });
+}
 
-  logger.info('Jenkins MCP Server started');
-  logger.info('Connected to Jenkins', { url: sanitizeUrl(config.url) });
-  logger.info('Available tools', { count: tools.length });
+function formatHost(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
 }
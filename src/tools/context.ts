@@ -0,0 +1,17 @@
+/**
+ * Per-call context passed to tool handlers.
+ * Target runtime: Node.js (ESM).
+ */
+
+/**
+ * Request-scoped helpers for long-running tools.
+ */
+export interface ToolContext {
+  /** Aborted when the client cancels the tools/call request */
+  signal?: AbortSignal;
+  /**
+   * Send a notifications/progress message; only set when the client sent a progressToken.
+   * `progress` must increase with every call.
+   */
+  reportProgress?: (progress: number, total?: number, message?: string) => Promise<void>;
+}
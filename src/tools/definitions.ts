@@ -1,226 +1,304 @@
+import { type ToolName, toJsonSchema, toolInputSchemas, toolOutputSchemas } from './schemas.js';
+
 /**
  * Tool definitions for MCP server
  * These tools are exposed to the AI for autonomous use
+ * Input and output schemas are generated from the Zod schemas in schemas.ts.
  */
 
 export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: {
-    type: string;
-    properties: Record<string, unknown>; // or Record<string, any> if you want to allow more flexible schemas
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+  /** Schema of structuredContent, for tools that return it */
+  outputSchema?: {
+    type: 'object';
+    properties?: Record<string, unknown>;
     required?: string[];
   };
+  /**
+   * MCP tool hints. Tools without readOnlyHint: true are treated as write
+   * operations and are hidden in read-only mode.
+   */
+  annotations: {
+    readOnlyHint: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+  };
 }
 
-export const tools: ToolDefinition[] = [
+type ToolDescription = Omit<ToolDefinition, 'name' | 'inputSchema' | 'outputSchema'> & {
+  name: ToolName;
+};
+
+const definitions: ToolDescription[] = [
+  {
+    name: 'list_instances',
+    description: 'List the configured Jenkins instances and which one is the default',
+    annotations: { readOnlyHint: true },
+  },
   {
     name: 'get_all_items',
-    description: 'Get all items (jobs and folders) from Jenkins server',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
+    description:
+      'Get items (jobs and folders) from Jenkins, paged. Lists the root or a folder; raise ' +
+      'depth to include the contents of nested folders and multibranch projects. Pass ' +
+      'nextCursor back as cursor to get the next page',
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'get_item',
     description: 'Get details of a specific Jenkins item by its full name',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fullName: {
-          type: 'string',
-          description: 'Full name of the item (e.g., "folder/job-name")',
-        },
-      },
-      required: ['fullName'],
-    },
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'get_item_config',
     description: 'Get the XML configuration of a specific Jenkins item',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fullName: {
-          type: 'string',
-          description: 'Full name of the item',
-        },
-      },
-      required: ['fullName'],
-    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_item_config_summary',
+    description:
+      'Get a normalized JSON summary of a Jenkins item configuration: job type, parameters, ' +
+      'SCM URLs and branches, triggers, pipeline script or scriptPath, build discarder and ' +
+      'assigned node label. Unrecognized elements are kept under "other"',
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'query_items',
-    description: 'Query Jenkins items with pattern filters',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        classPattern: {
-          type: 'string',
-          description: 'Regex pattern to filter by item class',
-        },
-        fullNamePattern: {
-          type: 'string',
-          description: 'Regex pattern to filter by full name',
-        },
-        colorPattern: {
-          type: 'string',
-          description: 'Regex pattern to filter by build status color',
-        },
-      },
-    },
+    description:
+      'Query Jenkins items with pattern filters, searching nested folders (default depth: 10). ' +
+      'Results are paged like get_all_items',
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'build_item',
     description: 'Trigger a build for a Jenkins item',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fullName: {
-          type: 'string',
-          description: 'Full name of the item to build',
-        },
-        parameters: {
-          type: 'object',
-          description: 'Build parameters (optional)',
-        },
-      },
-      required: ['fullName'],
-    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'build_and_wait',
+    description:
+      'Trigger a build, wait for it to leave the queue and finish, and return the result with the end of the console log. Sends progress notifications when the client provides a progress token; cancelling the request stops waiting but not the build',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'create_item',
+    description:
+      'Create a job or folder from config.xml. Parent folders in fullName must already exist',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'update_item_config',
+    description: 'Replace the XML configuration of an existing Jenkins item',
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  },
+  {
+    name: 'copy_item',
+    description: 'Copy an existing job or folder to a new full name',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'rename_item',
+    description: 'Rename a job or folder within its parent folder',
+    annotations: { readOnlyHint: false, destructiveHint: true },
+  },
+  {
+    name: 'delete_item',
+    description: 'Delete a job or folder (folders are deleted with everything inside them)',
+    annotations: { readOnlyHint: false, destructiveHint: true },
   },
   {
     name: 'get_all_nodes',
     description: 'Get all Jenkins nodes (agents)',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'get_node',
     description: 'Get details of a specific Jenkins node',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeName: {
-          type: 'string',
-          description: 'Name of the node',
-        },
-      },
-      required: ['nodeName'],
-    },
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'get_node_config',
     description: 'Get the XML configuration of a specific Jenkins node',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeName: {
-          type: 'string',
-          description: 'Name of the node',
-        },
-      },
-      required: ['nodeName'],
-    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_node_stats',
+    description:
+      'Get busy and idle executors, assigned labels, offline cause and monitor data (disk and ' +
+      'temp space, memory and swap, response time, clock difference, architecture) of one node ' +
+      'or all nodes',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_label_load',
+    description:
+      'Get the executor capacity of a label against its queue length, with the 10-second, ' +
+      '1-minute and 1-hour averages Jenkins keeps, and flag labels that look under-provisioned',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'set_node_offline',
+    description:
+      'Mark a node temporarily offline with a reason so it takes no new builds; running builds ' +
+      'finish. If the node is already offline, only the reason is replaced',
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  },
+  {
+    name: 'set_node_online',
+    description: 'Bring a temporarily offline node back online',
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  },
+  {
+    name: 'launch_node_agent',
+    description: 'Launch (reconnect) the agent of a node. Not available for the built-in node',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'disconnect_node',
+    description:
+      'Disconnect the agent of a node. Builds running on it are aborted; use set_node_offline ' +
+      'to drain it instead. Not available for the built-in node',
+    annotations: { readOnlyHint: false, destructiveHint: true },
+  },
+  {
+    name: 'create_node_from_xml',
+    description:
+      'Create a permanent agent from config.xml (e.g. one returned by get_node_config). ' +
+      'The <name> in the XML must match nodeName',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'delete_node',
+    description: 'Delete an agent node. The built-in node cannot be deleted',
+    annotations: { readOnlyHint: false, destructiveHint: true },
   },
   {
     name: 'get_all_queue_items',
     description: 'Get all items in the Jenkins build queue',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'get_queue_item',
-    description: 'Get details of a specific queue item',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        queueId: {
-          type: 'number',
-          description: 'ID of the queue item',
-        },
-      },
-      required: ['queueId'],
-    },
+    description:
+      'Get details of a specific queue item. Once the item leaves the queue, executable.number is the build it started',
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'cancel_queue_item',
     description: 'Cancel a specific item in the build queue',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        queueId: {
-          type: 'number',
-          description: 'ID of the queue item to cancel',
-        },
-      },
-      required: ['queueId'],
-    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
   },
   {
     name: 'get_build',
     description: 'Get details of a specific build',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fullName: {
-          type: 'string',
-          description: 'Full name of the job',
-        },
-        buildNumber: {
-          type: 'number',
-          description: 'Build number',
-        },
-      },
-      required: ['fullName', 'buildNumber'],
-    },
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'get_build_console_output',
     description: 'Get the console output (logs) of a specific build',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fullName: {
-          type: 'string',
-          description: 'Full name of the job',
-        },
-        buildNumber: {
-          type: 'number',
-          description: 'Build number',
-        },
-      },
-      required: ['fullName', 'buildNumber'],
-    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_build_console_chunk',
+    description:
+      'Get part of the console output of a build by byte offset (progressiveText). ' +
+      'Use nextOffset as the next start to page through or follow a running build; ' +
+      'hasMoreData is true while the build is still writing output',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'search_build_console',
+    description:
+      'Search the console output of a build for lines matching a regex and return each match ' +
+      'with its line number and surrounding context lines',
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'get_running_builds',
-    description: 'Get all currently running builds in Jenkins',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
+    description:
+      'List the builds running on executors across all nodes, longest-running first, with node, ' +
+      'executor, elapsed time, estimated remaining time and progress. Includes concurrent ' +
+      'builds, jobs in folders and Pipeline node blocks; filter by node or job regex',
+    annotations: { readOnlyHint: true },
   },
   {
     name: 'stop_build',
     description: 'Stop a running build',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fullName: {
-          type: 'string',
-          description: 'Full name of the job',
-        },
-        buildNumber: {
-          type: 'number',
-          description: 'Build number to stop',
-        },
-      },
-      required: ['fullName', 'buildNumber'],
-    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+  },
+  {
+    name: 'list_build_artifacts',
+    description:
+      'List the archived artifacts of a build with relative paths; sizes are resolved only ' +
+      'when withSizes is true (one request per artifact)',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_build_artifact',
+    description:
+      'Get the content of a build artifact. Text is returned inline, binary files as base64, ' +
+      'and files larger than maxBytes are reported as too large without downloading them',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_build_changes',
+    description:
+      'Get the SCM changes (commit ids, authors, messages, affected paths) and culprits of a ' +
+      'build, covering every SCM of multi-repository pipelines. Use since to aggregate all ' +
+      'changes after an earlier build, e.g. since the last successful build',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_build_causes',
+    description:
+      'Get why a build ran (user, timer, SCM, upstream, remote causes) and the downstream ' +
+      'builds it triggered. With followUpstream, recursively follows upstream causes to the ' +
+      'root build and returns the chain as a tree',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_build_test_report',
+    description:
+      'Get the JUnit test report of a build: pass/fail/skip counts and a page of test cases ' +
+      'with suite, duration, error details and trimmed stack trace',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'find_flaky_tests',
+    description:
+      'Find tests that flip between pass and fail across the last N completed builds of a job, ' +
+      'with their failure rate and the build numbers involved',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_pipeline_stages',
+    description:
+      'Get the stages of a Pipeline build with name, status, start time, duration and pause time',
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_pipeline_stage_log',
+    description:
+      'Get the logs of the steps of a single Pipeline stage. Defaults to the first failing stage',
+    annotations: { readOnlyHint: true },
   },
 ];
+
+export const tools: ToolDefinition[] = definitions.map((tool) => {
+  const outputSchema = toolOutputSchemas[tool.name];
+  return {
+    ...tool,
+    inputSchema: toJsonSchema(
+      toolInputSchemas[tool.name],
+      'input'
+    ) as ToolDefinition['inputSchema'],
+    ...(outputSchema && {
+      outputSchema: toJsonSchema(outputSchema, 'output') as ToolDefinition['outputSchema'],
+    }),
+  };
+});
@@ -0,0 +1,250 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  JenkinsAuthError,
+  JenkinsConnectionError,
+  JenkinsCsrfError,
+  JenkinsError,
+  JenkinsNotFoundError,
+  JenkinsServerError,
+  JenkinsTimeoutError,
+  JenkinsUnavailableError,
+} from '../client/errors.js';
+import type { JenkinsClient } from '../client/jenkins.js';
+import { splitFullName } from '../client/paths.js';
+import { normalizeOptionalString, ValidationError } from '../utils/validation.js';
+
+/**
+ * Mapping of Jenkins errors to MCP errors.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ *
+ * Each JenkinsError kind maps to its own MCP error code and `data.type`, with a message that
+ * says what to do next. A 404 for a job or node suggests the closest existing names.
+ */
+
+/**
+ * Kind of Jenkins failure reported in McpError.data.type.
+ */
+export type JenkinsErrorType =
+  | 'not_found'
+  | 'auth'
+  | 'csrf'
+  | 'timeout'
+  | 'server'
+  | 'connection'
+  | 'unavailable'
+  | 'request';
+
+/**
+ * Names used to explain a 404, usually taken from the tool arguments.
+ */
+export interface NotFoundLookup {
+  client: JenkinsClient;
+  /**
+   * Items the request needs to exist, such as a copy source or the parent folder of a new
+   * item. Checked in order, before `fullName`.
+   */
+  requiredItems?: unknown[];
+  fullName?: unknown;
+  nodeName?: unknown;
+}
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Convert an error thrown while serving a request into an MCP error.
+ * McpErrors pass through, ValidationErrors become InvalidParams and other errors that are not
+ * JenkinsErrors become InternalError.
+ * @param {unknown} error - Thrown error.
+ * @param {string} prefix - What failed (e.g. "Failed to execute tool get_item").
+ * @param {NotFoundLookup} [lookup] - Client and names used to explain 404s.
+ * @returns {Promise<McpError>} MCP error to throw.
+ */
+export async function toMcpError(
+  error: unknown,
+  prefix: string,
+  lookup?: NotFoundLookup
+): Promise<McpError> {
+  if (error instanceof McpError) return error;
+  if (error instanceof ValidationError) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+
+  if (!(error instanceof JenkinsError)) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new McpError(ErrorCode.InternalError, `${prefix}: ${message}`);
+  }
+
+  const type = getJenkinsErrorType(error);
+  const data: Record<string, unknown> = { type, status: error.status };
+
+  if (error instanceof JenkinsNotFoundError && lookup) {
+    const explained = await explainNotFound(lookup);
+    if (explained) {
+      data.suggestions = explained.suggestions;
+      return new McpError(ErrorCode.InvalidParams, explained.message, data);
+    }
+  }
+  if (error instanceof JenkinsUnavailableError) {
+    data.retryAt = new Date(error.retryAt).toISOString();
+  }
+
+  return new McpError(getErrorCode(type), `${prefix}: ${error.message}`, data);
+}
+
+/**
+ * Classify a Jenkins error.
+ * @param {JenkinsError} error - Jenkins error.
+ * @returns {JenkinsErrorType} Error kind.
+ */
+export function getJenkinsErrorType(error: JenkinsError): JenkinsErrorType {
+  if (error instanceof JenkinsNotFoundError) return 'not_found';
+  if (error instanceof JenkinsAuthError) return 'auth';
+  if (error instanceof JenkinsCsrfError) return 'csrf';
+  if (error instanceof JenkinsTimeoutError) return 'timeout';
+  if (error instanceof JenkinsServerError) return 'server';
+  if (error instanceof JenkinsConnectionError) return 'connection';
+  if (error instanceof JenkinsUnavailableError) return 'unavailable';
+  return 'request';
+}
+
+function getErrorCode(type: JenkinsErrorType): number {
+  switch (type) {
+    case 'not_found':
+    case 'request':
+      return ErrorCode.InvalidParams;
+    case 'auth':
+    case 'csrf':
+      return ErrorCode.InvalidRequest;
+    case 'timeout':
+      return ErrorCode.RequestTimeout;
+    case 'server':
+    case 'connection':
+    case 'unavailable':
+      return ErrorCode.InternalError;
+  }
+}
+
+async function explainNotFound(
+  lookup: NotFoundLookup
+): Promise<{ message: string; suggestions: string[] } | undefined> {
+  for (const required of lookup.requiredItems ?? []) {
+    const name = normalizeOptionalString(required);
+    if (name && !(await exists(() => lookup.client.getItem(name)))) {
+      return await explainMissingItem(lookup.client, name);
+    }
+  }
+
+  const fullName = normalizeOptionalString(lookup.fullName);
+  if (fullName) {
+    // The item may exist while the build, artifact or stage inside it does not.
+    if (await exists(() => lookup.client.getItem(fullName))) {
+      return {
+        message: `${fullName} exists, but the requested build or file was not found; check buildNumber and the other arguments`,
+        suggestions: [],
+      };
+    }
+    return await explainMissingItem(lookup.client, fullName);
+  }
+
+  const nodeName = normalizeOptionalString(lookup.nodeName);
+  if (nodeName) {
+    const suggestions = await attempt(async () =>
+      closestNames(
+        nodeName,
+        (await lookup.client.getAllNodes()).map((node) => node.displayName)
+      )
+    );
+    return {
+      message: `Jenkins node "${nodeName}" not found.${formatSuggestions(suggestions)} Use get_all_nodes to list nodes.`,
+      suggestions,
+    };
+  }
+
+  return undefined;
+}
+
+async function explainMissingItem(
+  client: JenkinsClient,
+  fullName: string
+): Promise<{ message: string; suggestions: string[] }> {
+  const suggestions = await suggestItemNames(client, fullName);
+  return {
+    message: `Jenkins item "${fullName}" not found.${formatSuggestions(suggestions)} Use get_all_items or query_items to find the full name.`,
+    suggestions,
+  };
+}
+
+/**
+ * Closest item names among the siblings of a missing item. When the parent folder is
+ * missing too, suggests folders close to the parent instead.
+ */
+async function suggestItemNames(client: JenkinsClient, fullName: string): Promise<string[]> {
+  const { parent } = splitFullName(fullName);
+  try {
+    const siblings = await client.getChildItems(parent);
+    return closestNames(
+      fullName,
+      siblings.map((item) => item.fullName)
+    );
+  } catch (error) {
+    if (error instanceof JenkinsNotFoundError && parent) {
+      return await suggestItemNames(client, parent);
+    }
+    return [];
+  }
+}
+
+function closestNames(target: string, candidates: string[]): string[] {
+  const needle = target.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+
+  return candidates
+    .map((candidate) => {
+      const value = candidate.toLowerCase();
+      const distance =
+        value.includes(needle) || needle.includes(value) ? 0 : levenshtein(needle, value);
+      return { candidate, distance };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function formatSuggestions(suggestions: string[]): string {
+  return suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+}
+
+async function exists(fetch: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await fetch();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function attempt(fetch: () => Promise<string[]>): Promise<string[]> {
+  try {
+    return await fetch();
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,184 @@
+import type { JenkinsClient } from '../../client/jenkins.js';
+import type { JenkinsBuildWaitResult } from '../../types/jenkins.js';
+import type { ToolContext } from '../context.js';
+import { type BuildItemArgs, handleBuildItem } from './items.js';
+
+/**
+ * Trigger-and-wait tool handler.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+export interface BuildAndWaitArgs extends BuildItemArgs {
+  timeout?: number;
+  pollInterval?: number;
+  consoleTailBytes?: number;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 30 * 60;
+export const MAX_TIMEOUT_SECONDS = 6 * 60 * 60;
+const DEFAULT_POLL_INTERVAL_SECONDS = 5;
+export const MAX_POLL_INTERVAL_SECONDS = 300;
+const DEFAULT_CONSOLE_TAIL_BYTES = 16 * 1024;
+export const MAX_CONSOLE_TAIL_BYTES = 1024 * 1024;
+
+/**
+ * Trigger a build, follow its queue item to the started build and wait for it to finish.
+ * Progress is reported while queued and while running. Cancelling the request stops the wait,
+ * not the Jenkins build.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {BuildAndWaitArgs} args - Tool arguments.
+ * @param {ToolContext} [context] - Abort signal and progress reporter.
+ * @returns {Promise<JenkinsBuildWaitResult>} Final build result with a console tail.
+ * @throws {Error} When the arguments are invalid, Jenkins fails or the request is cancelled.
+ */
+export async function handleBuildAndWait(
+  client: JenkinsClient,
+  args: BuildAndWaitArgs,
+  context: ToolContext = {}
+): Promise<JenkinsBuildWaitResult> {
+  const timeout = args.timeout ?? DEFAULT_TIMEOUT_SECONDS;
+  const pollInterval = args.pollInterval ?? DEFAULT_POLL_INTERVAL_SECONDS;
+  const consoleTailBytes = args.consoleTailBytes ?? DEFAULT_CONSOLE_TAIL_BYTES;
+
+  const { signal } = context;
+  const startedAt = Date.now();
+  const deadline = startedAt + timeout * 1000;
+  let step = 0;
+  const progress = async (message: string): Promise<void> => {
+    step += 1;
+    await context.reportProgress?.(step, undefined, message);
+  };
+
+  throwIfAborted(signal);
+  const queueId = await handleBuildItem(client, args);
+  const fullName = args.fullName;
+  await progress(`Queued ${fullName} as queue item ${queueId}`);
+
+  let buildNumber: number | undefined;
+  let why: string | undefined;
+  while (buildNumber === undefined) {
+    throwIfAborted(signal, `queue item ${queueId}`);
+    const item = await abortable(
+      () => client.getQueueItem(queueId, signal),
+      signal,
+      `queue item ${queueId}`
+    );
+
+    if (item.cancelled) {
+      return { status: 'cancelled', fullName, queueId, why: item.why, waitedMs: elapsed() };
+    }
+    if (item.executable?.number) {
+      buildNumber = item.executable.number;
+      break;
+    }
+
+    why = item.why;
+    if (Date.now() >= deadline) {
+      return { status: 'timed_out', fullName, queueId, why, waitedMs: elapsed() };
+    }
+    await progress(`Waiting in queue${why ? `: ${why}` : ''}`);
+    await sleep(Math.min(pollInterval * 1000, deadline - Date.now()), signal);
+  }
+
+  await progress(`Started ${fullName} #${buildNumber}`);
+
+  for (;;) {
+    const running = `${fullName} #${buildNumber}`;
+    throwIfAborted(signal, running);
+    const build = await abortable(
+      () => client.getBuild(fullName, buildNumber, signal),
+      signal,
+      running
+    );
+
+    if (!build.building) {
+      const tail = await abortable(
+        () =>
+          client.getBuildConsoleChunk(
+            fullName,
+            buildNumber,
+            { mode: 'tail', maxBytes: consoleTailBytes },
+            signal
+          ),
+        signal,
+        running
+      );
+      await progress(`${fullName} #${buildNumber} finished: ${build.result ?? 'UNKNOWN'}`);
+      return {
+        status: 'completed',
+        fullName,
+        queueId,
+        buildNumber,
+        url: build.url,
+        result: build.result,
+        building: false,
+        durationMs: build.duration,
+        waitedMs: elapsed(),
+        consoleTail: { text: tail.text, truncated: tail.truncated },
+      };
+    }
+
+    if (Date.now() >= deadline) {
+      return {
+        status: 'timed_out',
+        fullName,
+        queueId,
+        buildNumber,
+        url: build.url,
+        building: true,
+        waitedMs: elapsed(),
+      };
+    }
+    await progress(`${fullName} #${buildNumber} running for ${formatSeconds(build.timestamp)}`);
+    await sleep(Math.min(pollInterval * 1000, deadline - Date.now()), signal);
+  }
+
+  function elapsed(): number {
+    return Date.now() - startedAt;
+  }
+}
+
+function throwIfAborted(signal: AbortSignal | undefined, waitingFor?: string): void {
+  if (!signal?.aborted) return;
+  throw new Error(
+    waitingFor
+      ? `build_and_wait was cancelled; ${waitingFor} continues in Jenkins`
+      : 'build_and_wait was cancelled before the build was triggered'
+  );
+}
+
+/**
+ * Run a Jenkins request that the signal cancels, reporting cancellation like the polling loop.
+ */
+async function abortable<T>(
+  fetch: () => Promise<T>,
+  signal: AbortSignal | undefined,
+  waitingFor: string
+): Promise<T> {
+  try {
+    return await fetch();
+  } catch (error) {
+    throwIfAborted(signal, waitingFor);
+    throw error;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, Math.max(ms, 0));
+    signal?.addEventListener('abort', done, { once: true });
+
+    // The caller checks the signal after waking up.
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+function formatSeconds(timestamp: number | undefined): string {
+  if (!timestamp) return 'an unknown time';
+  return `${Math.max(0, Math.round((Date.now() - timestamp) / 1000))}s`;
+}
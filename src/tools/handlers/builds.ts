@@ -1,6 +1,14 @@
+import type { ConsoleChunkMode } from '../../client/apis/builds-api.js';
 import type { JenkinsClient } from '../../client/jenkins.js';
-import type { JenkinsBuild } from '../../types/jenkins.js';
-import { assertNonEmptyString, assertPositiveInt } from '../../utils/validation.js';
+import type {
+  JenkinsArtifact,
+  JenkinsArtifactContent,
+  JenkinsBuild,
+  JenkinsConsoleChunk,
+  JenkinsConsoleSearchResult,
+  JenkinsRunningBuild,
+} from '../../types/jenkins.js';
+import { normalizeOptionalString, ValidationError } from '../../utils/validation.js';
 
 /**
  * Build-related tool handlers.
@@ -23,9 +31,7 @@ export async function handleGetBuild(
   client: JenkinsClient,
   args: BuildArgs
 ): Promise<JenkinsBuild> {
-  assertNonEmptyString(args?.fullName, 'fullName');
-  const buildNumber = assertPositiveInt(args?.buildNumber, 'buildNumber');
-  return await client.getBuild(args.fullName, buildNumber);
+  return await client.getBuild(args.fullName, args.buildNumber);
 }
 
 /**
@@ -38,18 +44,128 @@ export async function handleGetBuildConsoleOutput(
   client: JenkinsClient,
   args: BuildArgs
 ): Promise<string> {
-  assertNonEmptyString(args?.fullName, 'fullName');
-  const buildNumber = assertPositiveInt(args?.buildNumber, 'buildNumber');
-  return await client.getBuildConsoleOutput(args.fullName, buildNumber);
+  return await client.getBuildConsoleOutput(args.fullName, args.buildNumber);
 }
 
+export interface ConsoleChunkArgs extends BuildArgs {
+  start?: number;
+  mode?: ConsoleChunkMode;
+  maxBytes?: number;
+}
+
+export interface SearchConsoleArgs extends BuildArgs {
+  pattern: string;
+  before?: number;
+  after?: number;
+  maxMatches?: number;
+  ignoreCase?: boolean;
+}
+
+export interface ListArtifactsArgs extends BuildArgs {
+  withSizes?: boolean;
+}
+
+export interface RunningBuildsArgs {
+  node?: string;
+  jobPattern?: string;
+}
+
+export interface GetArtifactArgs extends BuildArgs {
+  relativePath: string;
+  maxBytes?: number;
+}
+
+export const MAX_CONSOLE_CHUNK_BYTES = 1024 * 1024;
+export const MAX_SEARCH_CONTEXT_LINES = 50;
+export const MAX_SEARCH_MATCHES = 500;
+export const MAX_ARTIFACT_BYTES = 5 * 1024 * 1024;
+
 /**
- * Fetch all running builds.
+ * Fetch a slice of build console output.
  * @param {JenkinsClient} client - Jenkins API client.
- * @returns {Promise<JenkinsBuild[]>} List of running builds.
+ * @param {ConsoleChunkArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsConsoleChunk>} Console text and the offset to continue from.
  */
-export async function handleGetRunningBuilds(client: JenkinsClient): Promise<JenkinsBuild[]> {
-  return await client.getRunningBuilds();
+export async function handleGetBuildConsoleChunk(
+  client: JenkinsClient,
+  args: ConsoleChunkArgs
+): Promise<JenkinsConsoleChunk> {
+  const { start, mode, maxBytes } = args;
+  return await client.getBuildConsoleChunk(args.fullName, args.buildNumber, {
+    start,
+    mode,
+    maxBytes,
+  });
+}
+
+/**
+ * Search build console output for lines matching a regex.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {SearchConsoleArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsConsoleSearchResult>} Matches with line numbers and context.
+ */
+export async function handleSearchBuildConsole(
+  client: JenkinsClient,
+  args: SearchConsoleArgs
+): Promise<JenkinsConsoleSearchResult> {
+  const { before, after, maxMatches, ignoreCase } = args;
+  return await client.searchBuildConsole(args.fullName, args.buildNumber, args.pattern, {
+    before,
+    after,
+    maxMatches,
+    ignoreCase,
+  });
+}
+
+/**
+ * List the archived artifacts of a build.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {ListArtifactsArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsArtifact[]>} Artifacts with relative paths and sizes.
+ */
+export async function handleListBuildArtifacts(
+  client: JenkinsClient,
+  args: ListArtifactsArgs
+): Promise<JenkinsArtifact[]> {
+  return await client.listBuildArtifacts(args.fullName, args.buildNumber, args.withSizes ?? false);
+}
+
+/**
+ * Fetch the content of one build artifact.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {GetArtifactArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsArtifactContent>} Inline text, base64 content or a too-large marker.
+ */
+export async function handleGetBuildArtifact(
+  client: JenkinsClient,
+  args: GetArtifactArgs
+): Promise<JenkinsArtifactContent> {
+  if (args.relativePath.split('/').includes('..')) {
+    throw new ValidationError('relativePath is invalid; must not contain ".." segments');
+  }
+
+  return await client.getBuildArtifact(
+    args.fullName,
+    args.buildNumber,
+    args.relativePath,
+    args.maxBytes
+  );
+}
+
+/**
+ * Fetch the builds running on executors.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {RunningBuildsArgs} [args] - Tool arguments.
+ * @returns {Promise<JenkinsRunningBuild[]>} Running builds, longest-running first.
+ */
+export async function handleGetRunningBuilds(
+  client: JenkinsClient,
+  args?: RunningBuildsArgs
+): Promise<JenkinsRunningBuild[]> {
+  return await client.getRunningBuilds({
+    node: normalizeOptionalString(args?.node),
+    jobPattern: normalizeOptionalString(args?.jobPattern),
+  });
 }
 
 /**
@@ -62,8 +178,6 @@ export async function handleStopBuild(
   client: JenkinsClient,
   args: BuildArgs
 ): Promise<{ success: true }> {
-  assertNonEmptyString(args?.fullName, 'fullName');
-  const buildNumber = assertPositiveInt(args?.buildNumber, 'buildNumber');
-  await client.stopBuild(args.fullName, buildNumber);
+  await client.stopBuild(args.fullName, args.buildNumber);
   return { success: true };
 }
@@ -0,0 +1,188 @@
+import { JenkinsAuthError, JenkinsNotFoundError } from '../../client/errors.js';
+import type { JenkinsClient } from '../../client/jenkins.js';
+import type {
+  JenkinsBuild,
+  JenkinsBuildCause,
+  JenkinsBuildCauseNode,
+  JenkinsCause,
+} from '../../types/jenkins.js';
+
+/**
+ * Build cause tool handlers.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+export interface BuildCausesArgs {
+  fullName: string;
+  buildNumber: number;
+  followUpstream?: boolean;
+  maxDepth?: number;
+  includeDownstream?: boolean;
+}
+
+const DEFAULT_UPSTREAM_DEPTH = 10;
+export const MAX_UPSTREAM_DEPTH = 25;
+const DOWNSTREAM_SCAN_BUILDS = 20;
+
+/**
+ * Fetch the causes of a build, optionally following the upstream chain to its root
+ * and listing the downstream builds it triggered.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {BuildCausesArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsBuildCauseNode>} Cause tree rooted at the requested build.
+ */
+export async function handleGetBuildCauses(
+  client: JenkinsClient,
+  args: BuildCausesArgs
+): Promise<JenkinsBuildCauseNode> {
+  const { buildNumber } = args;
+  const maxDepth = args.maxDepth ?? DEFAULT_UPSTREAM_DEPTH;
+
+  const build = await client.getBuildCauses(args.fullName, buildNumber);
+  const node = toCauseNode(args.fullName, build);
+
+  if (args.followUpstream) {
+    const visited = new Set([buildKey(args.fullName, buildNumber)]);
+    node.upstream = await collectUpstream(client, node.causes, maxDepth, visited);
+  }
+
+  if (args.includeDownstream ?? true) {
+    node.downstream = await collectDownstream(client, args.fullName, build);
+  }
+
+  return node;
+}
+
+async function collectUpstream(
+  client: JenkinsClient,
+  causes: JenkinsBuildCause[],
+  depth: number,
+  visited: Set<string>
+): Promise<JenkinsBuildCauseNode[]> {
+  if (depth <= 0) return [];
+
+  const nodes: JenkinsBuildCauseNode[] = [];
+  for (const cause of causes) {
+    if (cause.type !== 'upstream' || !cause.upstreamProject || !cause.upstreamBuild) continue;
+
+    const key = buildKey(cause.upstreamProject, cause.upstreamBuild);
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    let node: JenkinsBuildCauseNode;
+    try {
+      const build = await client.getBuildCauses(cause.upstreamProject, cause.upstreamBuild);
+      node = toCauseNode(cause.upstreamProject, build);
+    } catch (error) {
+      if (!(error instanceof JenkinsNotFoundError)) throw error;
+      // The upstream build was discarded; keep the link without details.
+      nodes.push({
+        fullName: cause.upstreamProject,
+        buildNumber: cause.upstreamBuild,
+        causes: [],
+      });
+      continue;
+    }
+
+    node.upstream = await collectUpstream(client, node.causes, depth - 1, visited);
+    nodes.push(node);
+  }
+
+  return nodes;
+}
+
+/**
+ * Downstream builds come from the Pipeline build step action when present, and from
+ * scanning recent builds of configured downstream projects for an upstream cause
+ * pointing back at this build.
+ */
+async function collectDownstream(
+  client: JenkinsClient,
+  fullName: string,
+  build: JenkinsBuild
+): Promise<Array<{ fullName: string; buildNumber?: number }>> {
+  const downstream = new Map<string, { fullName: string; buildNumber?: number }>();
+
+  for (const action of build.actions ?? []) {
+    for (const triggered of action?.downstreamBuilds ?? []) {
+      const entry = {
+        fullName: triggered.jobFullName,
+        buildNumber: triggered.buildNumber ?? undefined,
+      };
+      downstream.set(buildKey(entry.fullName, entry.buildNumber), entry);
+    }
+  }
+
+  const projects = await client.getDownstreamProjects(fullName);
+  for (const project of projects) {
+    const projectName = project.fullName ?? project.name;
+    let builds: JenkinsBuild[];
+    try {
+      builds = await client.getRecentBuildCauses(projectName, DOWNSTREAM_SCAN_BUILDS);
+    } catch (error) {
+      // Skip a project that was deleted or that this user may not read (403).
+      const hidden = error instanceof JenkinsAuthError && error.status === 403;
+      if (!(error instanceof JenkinsNotFoundError) && !hidden) throw error;
+      continue;
+    }
+    for (const candidate of builds) {
+      const triggeredByThisBuild = extractCauses(candidate).some(
+        (cause) => cause.upstreamProject === fullName && cause.upstreamBuild === build.number
+      );
+      if (triggeredByThisBuild) {
+        const entry = { fullName: projectName, buildNumber: candidate.number };
+        downstream.set(buildKey(entry.fullName, entry.buildNumber), entry);
+      }
+    }
+  }
+
+  return [...downstream.values()];
+}
+
+function toCauseNode(fullName: string, build: JenkinsBuild): JenkinsBuildCauseNode {
+  return {
+    fullName,
+    buildNumber: build.number,
+    url: build.url,
+    result: build.result ?? null,
+    causes: extractCauses(build).map(normalizeCause),
+  };
+}
+
+function extractCauses(build: JenkinsBuild): JenkinsCause[] {
+  return (build.actions ?? []).flatMap((action) => action?.causes ?? []);
+}
+
+function normalizeCause(cause: JenkinsCause): JenkinsBuildCause {
+  const normalized: JenkinsBuildCause = {
+    type: classifyCause(cause),
+    description: cause.shortDescription,
+  };
+
+  if (cause.userId) normalized.userId = cause.userId;
+  if (cause.userName) normalized.userName = cause.userName;
+  if (cause.upstreamProject) normalized.upstreamProject = cause.upstreamProject;
+  if (cause.upstreamBuild !== undefined) normalized.upstreamBuild = cause.upstreamBuild;
+  if (cause.addr) normalized.remoteAddr = cause.addr;
+  if (cause.note) normalized.note = cause.note;
+
+  return normalized;
+}
+
+function classifyCause(cause: JenkinsCause): JenkinsBuildCause['type'] {
+  const className = cause._class ?? '';
+
+  if (cause.upstreamProject !== undefined || /UpstreamCause$/.test(className)) return 'upstream';
+  if (/UserIdCause$|UserCause$/.test(className)) return 'user';
+  if (/TimerTriggerCause$/.test(className)) return 'timer';
+  if (/RemoteCause$/.test(className)) return 'remote';
+  if (/SCMTriggerCause$|BranchEventCause$|BranchIndexingCause$|PushCause$/i.test(className)) {
+    return 'scm';
+  }
+  return 'other';
+}
+
+function buildKey(fullName: string, buildNumber?: number): string {
+  return `${fullName}#${buildNumber ?? ''}`;
+}
@@ -0,0 +1,116 @@
+import type { JenkinsClient } from '../../client/jenkins.js';
+import type { JenkinsBuild, JenkinsBuildChanges, JenkinsCommit } from '../../types/jenkins.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * SCM change tool handlers.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+export interface BuildChangesArgs {
+  fullName: string;
+  buildNumber: number;
+  since?: number | 'lastSuccessfulBuild';
+}
+
+const MAX_CHANGE_RANGE_BUILDS = 50;
+
+/**
+ * Fetch the SCM changes of a build, or of every build after `since` up to the build.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {BuildChangesArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsBuildChanges>} Commits and culprits.
+ */
+export async function handleGetBuildChanges(
+  client: JenkinsClient,
+  args: BuildChangesArgs
+): Promise<JenkinsBuildChanges> {
+  const { buildNumber } = args;
+
+  const buildNumbers =
+    args.since === undefined
+      ? [buildNumber]
+      : await resolveBuildRange(client, args.fullName, buildNumber, args.since);
+
+  const commits: JenkinsCommit[] = [];
+  const culprits = new Set<string>();
+  const seen = new Set<string>();
+
+  for (const number of buildNumbers) {
+    const build = await client.getBuildChanges(args.fullName, number);
+    for (const commit of toCommits(build)) {
+      const key = commit.commitId ? `${commit.scm}:${commit.commitId}` : undefined;
+      if (key && seen.has(key)) continue;
+      if (key) seen.add(key);
+      commits.push(commit);
+    }
+    for (const culprit of build.culprits ?? []) {
+      culprits.add(culprit.fullName);
+    }
+  }
+
+  return {
+    fullName: args.fullName,
+    buildNumbers,
+    commits,
+    culprits: [...culprits],
+  };
+}
+
+/**
+ * Resolve the builds after `since` (exclusive) up to buildNumber (inclusive) that still exist.
+ */
+async function resolveBuildRange(
+  client: JenkinsClient,
+  fullName: string,
+  buildNumber: number,
+  since: number | 'lastSuccessfulBuild'
+): Promise<number[]> {
+  const item = await client.getItem(fullName);
+
+  let from: number;
+  if (since === 'lastSuccessfulBuild') {
+    const lastSuccessful = item.lastSuccessfulBuild?.number;
+    if (lastSuccessful === undefined) {
+      throw new Error(`${fullName} has no successful build to compare against`);
+    }
+    from = lastSuccessful;
+  } else {
+    from = since;
+  }
+
+  if (from >= buildNumber) {
+    throw new ValidationError(`since is invalid; must be lower than buildNumber (${buildNumber})`);
+  }
+
+  const buildNumbers = (item.builds ?? [])
+    .map((build) => build.number)
+    .filter((number) => number > from && number <= buildNumber)
+    .sort((a, b) => a - b);
+
+  if (buildNumbers.length > MAX_CHANGE_RANGE_BUILDS) {
+    throw new ValidationError(
+      `since is invalid; the range covers ${buildNumbers.length} builds (max ${MAX_CHANGE_RANGE_BUILDS})`
+    );
+  }
+
+  return buildNumbers.length > 0 ? buildNumbers : [buildNumber];
+}
+
+function toCommits(build: JenkinsBuild): JenkinsCommit[] {
+  const changeSets = [...(build.changeSets ?? []), ...(build.changeSet ? [build.changeSet] : [])];
+
+  return changeSets.flatMap((changeSet) =>
+    (changeSet.items ?? []).map((item) => ({
+      buildNumber: build.number,
+      scm: changeSet.kind ?? undefined,
+      commitId: item.commitId ?? item.id,
+      author: item.author?.fullName,
+      authorEmail: item.authorEmail,
+      message: item.msg ?? item.comment,
+      timestamp: item.timestamp,
+      affectedPaths: item.affectedPaths ?? [],
+    }))
+  );
+}
@@ -0,0 +1,18 @@
+import type { JenkinsInstanceInfo, JenkinsInstances } from '../../client/instances.js';
+
+/**
+ * Instance tool handlers.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+/**
+ * List configured Jenkins instances.
+ * @param {JenkinsInstances} instances - Configured Jenkins instances.
+ * @returns {Promise<JenkinsInstanceInfo[]>} Instance names, URLs and default flag.
+ */
+export async function handleListInstances(
+  instances: JenkinsInstances
+): Promise<JenkinsInstanceInfo[]> {
+  return instances.list();
+}
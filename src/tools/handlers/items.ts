@@ -1,10 +1,9 @@
+import type { ItemPosition } from '../../client/apis/items-api.js';
 import type { JenkinsClient } from '../../client/jenkins.js';
-import type { JenkinsItem } from '../../types/jenkins.js';
-import {
-  assertNonEmptyString,
-  isPlainObject,
-  normalizeOptionalString,
-} from '../../utils/validation.js';
+import { summarizeJobConfig } from '../../client/job-config.js';
+import { splitFullName } from '../../client/paths.js';
+import type { JenkinsItem, JenkinsItemPage, JenkinsJobConfigSummary } from '../../types/jenkins.js';
+import { normalizeOptionalString, ValidationError } from '../../utils/validation.js';
 
 /**
  * Item-related tool handlers.
@@ -16,7 +15,14 @@ export interface GetItemArgs {
   fullName: string;
 }
 
-export interface QueryItemsArgs {
+export interface ListItemsArgs {
+  folder?: string;
+  depth?: number;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface QueryItemsArgs extends ListItemsArgs {
   classPattern?: string;
   fullNamePattern?: string;
   colorPattern?: string;
@@ -27,13 +33,39 @@ export interface BuildItemArgs {
   parameters?: Record<string, string>;
 }
 
+export interface ItemConfigArgs {
+  fullName: string;
+  configXml: string;
+}
+
+export interface CopyItemArgs {
+  sourceFullName: string;
+  fullName: string;
+}
+
+export interface RenameItemArgs {
+  fullName: string;
+  newName: string;
+}
+
+export const MAX_ITEM_DEPTH = 10;
+export const MAX_ITEM_PAGE_SIZE = 1000;
+const DEFAULT_ITEM_PAGE_SIZE = 200;
+
 /**
- * Fetch all items (jobs and folders).
+ * Fetch one page of items (jobs and folders), optionally below a folder and through
+ * nested folders down to `depth` levels.
  * @param {JenkinsClient} client - Jenkins API client.
- * @returns {Promise<JenkinsItem[]>} List of Jenkins items.
+ * @param {ListItemsArgs} [args] - Tool arguments.
+ * @returns {Promise<JenkinsItemPage>} Page of Jenkins items.
  */
-export async function handleGetAllItems(client: JenkinsClient): Promise<JenkinsItem[]> {
-  return await client.getAllItems();
+export async function handleGetAllItems(
+  client: JenkinsClient,
+  args: ListItemsArgs = {}
+): Promise<JenkinsItemPage> {
+  const { folder, depth, start, from, limit } = parseListArgs(args, 1);
+  const page = await client.getItemsPage(from, limit, { folder, depth });
+  return toItemPage(page.items, start, page.next);
 }
 
 /**
@@ -46,7 +78,6 @@ export async function handleGetItem(
   client: JenkinsClient,
   args: GetItemArgs
 ): Promise<JenkinsItem> {
-  assertNonEmptyString(args?.fullName, 'fullName');
   return await client.getItem(args.fullName);
 }
 
@@ -60,27 +91,123 @@ export async function handleGetItemConfig(
   client: JenkinsClient,
   args: GetItemArgs
 ): Promise<string> {
-  assertNonEmptyString(args?.fullName, 'fullName');
   return await client.getItemConfig(args.fullName);
 }
 
 /**
- * Query items using regex filters.
+ * Fetch item configuration XML and parse it into a normalized summary.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {GetItemArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsJobConfigSummary>} Config summary.
+ */
+export async function handleGetItemConfigSummary(
+  client: JenkinsClient,
+  args: GetItemArgs
+): Promise<JenkinsJobConfigSummary> {
+  const xml = await client.getItemConfig(args.fullName);
+  return summarizeJobConfig(xml);
+}
+
+/**
+ * Create a job or folder from config XML.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {ItemConfigArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true; fullName: string }>} Success flag and created item name.
+ */
+export async function handleCreateItem(
+  client: JenkinsClient,
+  args: ItemConfigArgs
+): Promise<{ success: true; fullName: string }> {
+  await client.createItem(args.fullName, args.configXml);
+  return { success: true, fullName: args.fullName };
+}
+
+/**
+ * Replace item configuration XML.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {ItemConfigArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true }>} Success flag.
+ */
+export async function handleUpdateItemConfig(
+  client: JenkinsClient,
+  args: ItemConfigArgs
+): Promise<{ success: true }> {
+  await client.updateItemConfig(args.fullName, args.configXml);
+  return { success: true };
+}
+
+/**
+ * Copy an existing item to a new full name.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {CopyItemArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true; fullName: string }>} Success flag and new item name.
+ */
+export async function handleCopyItem(
+  client: JenkinsClient,
+  args: CopyItemArgs
+): Promise<{ success: true; fullName: string }> {
+  await client.copyItem(args.sourceFullName, args.fullName);
+  return { success: true, fullName: args.fullName };
+}
+
+/**
+ * Rename an item within its folder.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {RenameItemArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true; fullName: string }>} Success flag and new full name.
+ */
+export async function handleRenameItem(
+  client: JenkinsClient,
+  args: RenameItemArgs
+): Promise<{ success: true; fullName: string }> {
+  if (args.newName.includes('/')) {
+    throw new ValidationError(
+      'newName is invalid; use copy_item to move an item to another folder'
+    );
+  }
+
+  await client.renameItem(args.fullName, args.newName);
+  const { parent } = splitFullName(args.fullName);
+  return { success: true, fullName: parent ? `${parent}/${args.newName}` : args.newName };
+}
+
+/**
+ * Delete an item.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {GetItemArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true }>} Success flag.
+ */
+export async function handleDeleteItem(
+  client: JenkinsClient,
+  args: GetItemArgs
+): Promise<{ success: true }> {
+  await client.deleteItem(args.fullName);
+  return { success: true };
+}
+
+/**
+ * Query items using regex filters. Searches nested folders by default.
  * @param {JenkinsClient} client - Jenkins API client.
  * @param {QueryItemsArgs} args - Tool arguments.
- * @returns {Promise<unknown[]>} Filtered Jenkins items.
+ * @returns {Promise<JenkinsItemPage>} Page of matching Jenkins items.
  */
 export async function handleQueryItems(
   client: JenkinsClient,
   args: QueryItemsArgs
-): Promise<unknown[]> {
-  const params: QueryItemsArgs = {
-    classPattern: normalizeOptionalString(args?.classPattern),
-    fullNamePattern: normalizeOptionalString(args?.fullNamePattern),
-    colorPattern: normalizeOptionalString(args?.colorPattern),
-  };
-
-  return await client.queryItems(params);
+): Promise<JenkinsItemPage> {
+  const { folder, depth, start, from, limit } = parseListArgs(args, MAX_ITEM_DEPTH);
+  const page = await client.queryItems(
+    {
+      classPattern: normalizeOptionalString(args.classPattern),
+      fullNamePattern: normalizeOptionalString(args.fullNamePattern),
+      colorPattern: normalizeOptionalString(args.colorPattern),
+      folder,
+      depth,
+    },
+    from,
+    limit
+  );
+  return toItemPage(page.items, start, page.next);
 }
 
 /**
@@ -90,11 +217,38 @@ export async function handleQueryItems(
  * @returns {Promise<number>} Queue ID.
  */
 export async function handleBuildItem(client: JenkinsClient, args: BuildItemArgs): Promise<number> {
-  assertNonEmptyString(args?.fullName, 'fullName');
+  return await client.buildItem(args.fullName, args.parameters);
+}
 
-  if (args?.parameters !== undefined && !isPlainObject(args.parameters)) {
-    throw new Error('parameters must be an object with string values');
+/**
+ * Cursors are "<end>" when the next page starts at that top-level index, and
+ * "<end>:<position>" (e.g. "200:4.0.17") when it starts elsewhere, such as inside a folder.
+ */
+function parseListArgs(
+  args: ListItemsArgs | undefined,
+  defaultDepth: number
+): { folder?: string; depth: number; start: number; from: ItemPosition; limit: number } {
+  const depth = args?.depth ?? defaultDepth;
+  const [offset, position] = (args?.cursor ?? '0').split(':');
+  const start = Number(offset);
+  const from = position === undefined ? [start] : position.split('.').map(Number);
+  if (from.length > depth) {
+    throw new ValidationError('cursor is invalid; it was returned for a deeper listing');
   }
 
-  return await client.buildItem(args.fullName, args?.parameters);
+  return {
+    folder: normalizeOptionalString(args?.folder),
+    depth,
+    start,
+    from,
+    limit: args?.limit ?? DEFAULT_ITEM_PAGE_SIZE,
+  };
+}
+
+function toItemPage(items: JenkinsItem[], start: number, next?: ItemPosition): JenkinsItemPage {
+  const end = start + items.length;
+  if (!next) return { items, start, end };
+  const nextCursor =
+    next.length === 1 && next[0] === end ? String(end) : `${end}:${next.join('.')}`;
+  return { items, start, end, nextCursor };
 }
@@ -1,6 +1,7 @@
 import type { JenkinsClient } from '../../client/jenkins.js';
-import type { JenkinsNode } from '../../types/jenkins.js';
-import { assertNonEmptyString } from '../../utils/validation.js';
+import { isBuiltInNode } from '../../client/paths.js';
+import type { JenkinsLabelLoad, JenkinsNode, JenkinsNodeStats } from '../../types/jenkins.js';
+import { normalizeOptionalString, ValidationError } from '../../utils/validation.js';
 
 /**
  * Node-related tool handlers.
@@ -12,6 +13,26 @@ export interface GetNodeArgs {
   nodeName: string;
 }
 
+export interface NodeStatsArgs {
+  nodeName?: string;
+}
+
+export interface LabelLoadArgs {
+  label: string;
+}
+
+export interface SetNodeOfflineArgs extends GetNodeArgs {
+  reason: string;
+}
+
+export interface DisconnectNodeArgs extends GetNodeArgs {
+  reason?: string;
+}
+
+export interface NodeConfigArgs extends GetNodeArgs {
+  configXml: string;
+}
+
 /**
  * Fetch all Jenkins nodes.
  * @param {JenkinsClient} client - Jenkins API client.
@@ -31,7 +52,6 @@ export async function handleGetNode(
   client: JenkinsClient,
   args: GetNodeArgs
 ): Promise<JenkinsNode> {
-  assertNonEmptyString(args?.nodeName, 'nodeName');
   return await client.getNode(args.nodeName);
 }
 
@@ -45,6 +65,136 @@ export async function handleGetNodeConfig(
   client: JenkinsClient,
   args: GetNodeArgs
 ): Promise<string> {
-  assertNonEmptyString(args?.nodeName, 'nodeName');
   return await client.getNodeConfig(args.nodeName);
 }
+
+/**
+ * Fetch executor, label, monitor and offline details of nodes.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {NodeStatsArgs} [args] - Tool arguments.
+ * @returns {Promise<JenkinsNodeStats[]>} Statistics of the node, or of all nodes.
+ */
+export async function handleGetNodeStats(
+  client: JenkinsClient,
+  args?: NodeStatsArgs
+): Promise<JenkinsNodeStats[]> {
+  return await client.getNodeStats(normalizeOptionalString(args?.nodeName));
+}
+
+/**
+ * Fetch executor capacity and queue length of a label.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {LabelLoadArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsLabelLoad>} Label load.
+ */
+export async function handleGetLabelLoad(
+  client: JenkinsClient,
+  args: LabelLoadArgs
+): Promise<JenkinsLabelLoad> {
+  return await client.getLabelLoad(args.label.trim());
+}
+
+/**
+ * Mark a node temporarily offline so it takes no new builds.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {SetNodeOfflineArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true; changed: boolean }>} changed is false when the node was
+ * already offline and only the reason was replaced.
+ */
+export async function handleSetNodeOffline(
+  client: JenkinsClient,
+  args: SetNodeOfflineArgs
+): Promise<{ success: true; changed: boolean }> {
+  const changed = await client.setNodeOffline(args.nodeName, args.reason.trim());
+  return { success: true, changed };
+}
+
+/**
+ * Bring a temporarily offline node back online.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {GetNodeArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true; changed: boolean }>} changed is false when the node was
+ * not temporarily offline.
+ */
+export async function handleSetNodeOnline(
+  client: JenkinsClient,
+  args: GetNodeArgs
+): Promise<{ success: true; changed: boolean }> {
+  const changed = await client.setNodeOnline(args.nodeName);
+  return { success: true, changed };
+}
+
+/**
+ * Launch the agent of a node.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {GetNodeArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true }>} Success flag.
+ */
+export async function handleLaunchNodeAgent(
+  client: JenkinsClient,
+  args: GetNodeArgs
+): Promise<{ success: true }> {
+  assertAgentNode(args.nodeName, 'has no agent to launch');
+  await client.launchNodeAgent(args.nodeName);
+  return { success: true };
+}
+
+/**
+ * Disconnect the agent of a node, aborting the builds running on it.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {DisconnectNodeArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true }>} Success flag.
+ */
+export async function handleDisconnectNode(
+  client: JenkinsClient,
+  args: DisconnectNodeArgs
+): Promise<{ success: true }> {
+  assertAgentNode(args.nodeName, 'cannot be disconnected; use set_node_offline instead');
+  await client.disconnectNode(args.nodeName, normalizeOptionalString(args.reason));
+  return { success: true };
+}
+
+/**
+ * Create a permanent agent from config XML.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {NodeConfigArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true; nodeName: string }>} Success flag and node name.
+ */
+export async function handleCreateNodeFromXml(
+  client: JenkinsClient,
+  args: NodeConfigArgs
+): Promise<{ success: true; nodeName: string }> {
+  assertAgentNode(args.nodeName, 'already exists');
+
+  // Jenkins renames the node to the <name> in the XML; refuse instead of surprising the caller.
+  const xmlName = args.configXml.match(/<name>([^<]*)<\/name>/)?.[1]?.trim();
+  if (xmlName !== undefined && xmlName !== args.nodeName) {
+    throw new ValidationError(
+      `configXml is invalid; its <name> "${xmlName}" does not match nodeName "${args.nodeName}"`
+    );
+  }
+
+  await client.createNode(args.nodeName, args.configXml);
+  return { success: true, nodeName: args.nodeName };
+}
+
+/**
+ * Delete a node.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {GetNodeArgs} args - Tool arguments.
+ * @returns {Promise<{ success: true }>} Success flag.
+ */
+export async function handleDeleteNode(
+  client: JenkinsClient,
+  args: GetNodeArgs
+): Promise<{ success: true }> {
+  assertAgentNode(args.nodeName, 'cannot be deleted');
+  await client.deleteNode(args.nodeName);
+  return { success: true };
+}
+
+function assertAgentNode(nodeName: string, builtInReason: string): void {
+  if (isBuiltInNode(nodeName)) {
+    throw new ValidationError(`nodeName is invalid; the built-in node ${builtInReason}`);
+  }
+}
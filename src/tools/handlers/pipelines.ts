@@ -0,0 +1,94 @@
+import type { JenkinsClient } from '../../client/jenkins.js';
+import type {
+  JenkinsPipelineRun,
+  JenkinsPipelineStage,
+  JenkinsPipelineStageLog,
+} from '../../types/jenkins.js';
+import { normalizeOptionalString, ValidationError } from '../../utils/validation.js';
+import type { BuildArgs } from './builds.js';
+
+/**
+ * Pipeline-related tool handlers.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+export interface PipelineStageLogArgs extends BuildArgs {
+  stage?: string;
+}
+
+/**
+ * Stage statuses treated as failing, in order of preference when picking a stage.
+ */
+const FAILING_STAGE_STATUSES = ['FAILED', 'UNSTABLE', 'ABORTED'];
+
+/**
+ * Fetch the stages of a pipeline run.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {BuildArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsPipelineRun>} Pipeline run with stages.
+ */
+export async function handleGetPipelineStages(
+  client: JenkinsClient,
+  args: BuildArgs
+): Promise<JenkinsPipelineRun> {
+  return await client.getPipelineRun(args.fullName, args.buildNumber);
+}
+
+/**
+ * Fetch the logs of one pipeline stage's flow nodes.
+ * Defaults to the first failing stage when no stage is given.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {PipelineStageLogArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsPipelineStageLog>} Stage and the logs of its nodes.
+ */
+export async function handleGetPipelineStageLog(
+  client: JenkinsClient,
+  args: PipelineStageLogArgs
+): Promise<JenkinsPipelineStageLog> {
+  const { buildNumber } = args;
+  const stageRef = normalizeOptionalString(args.stage);
+
+  const run = await client.getPipelineRun(args.fullName, buildNumber);
+  const stage = stageRef ? findStage(run.stages, stageRef) : findFailingStage(run.stages);
+
+  if (!stage && stageRef) {
+    throw new ValidationError(
+      `stage is invalid; "${stageRef}" not found in ${args.fullName} #${buildNumber} ` +
+        `(stages: ${run.stages.map((candidate) => candidate.name).join(', ') || 'none'})`
+    );
+  }
+  if (!stage) {
+    throw new Error(
+      `No failing stage found in ${args.fullName} #${buildNumber}; pass stage explicitly`
+    );
+  }
+
+  const detail = await client.getPipelineStage(args.fullName, buildNumber, stage.id);
+  const nodes: JenkinsPipelineStageLog['nodes'] = [];
+  for (const node of detail.stageFlowNodes) {
+    const log = await client.getPipelineNodeLog(args.fullName, buildNumber, node.id);
+    if (!log.text) continue;
+    nodes.push({ ...node, log: log.text, hasMore: log.hasMore ?? false });
+  }
+
+  return { stage, nodes };
+}
+
+function findStage(
+  stages: JenkinsPipelineStage[],
+  stageRef: string
+): JenkinsPipelineStage | undefined {
+  return (
+    stages.find((stage) => stage.id === stageRef) ??
+    stages.find((stage) => stage.name.toLowerCase() === stageRef.toLowerCase())
+  );
+}
+
+function findFailingStage(stages: JenkinsPipelineStage[]): JenkinsPipelineStage | undefined {
+  for (const status of FAILING_STAGE_STATUSES) {
+    const stage = stages.find((candidate) => candidate.status === status);
+    if (stage) return stage;
+  }
+  return undefined;
+}
@@ -1,5 +1,4 @@
 import type { JenkinsClient } from '../../client/jenkins.js';
-import { assertNonNegativeInt } from '../../utils/validation.js';
 
 /**
  * Queue-related tool handlers.
@@ -30,8 +29,7 @@ export async function handleGetQueueItem(
   client: JenkinsClient,
   args: GetQueueItemArgs
 ): Promise<unknown> {
-  const queueId = assertNonNegativeInt(args?.queueId, 'queueId');
-  return await client.getQueueItem(queueId);
+  return await client.getQueueItem(args.queueId);
 }
 
 /**
@@ -44,7 +42,6 @@ export async function handleCancelQueueItem(
   client: JenkinsClient,
   args: GetQueueItemArgs
 ): Promise<{ success: true }> {
-  const queueId = assertNonNegativeInt(args?.queueId, 'queueId');
-  await client.cancelQueueItem(queueId);
+  await client.cancelQueueItem(args.queueId);
   return { success: true };
 }
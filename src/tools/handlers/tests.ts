@@ -0,0 +1,115 @@
+import type { JenkinsClient } from '../../client/jenkins.js';
+import {
+  countTestResults,
+  detectFlakyTests,
+  flattenTestCases,
+  isFailedStatus,
+} from '../../client/test-report.js';
+import type {
+  JenkinsFlakyTestReport,
+  JenkinsTestCaseResult,
+  JenkinsTestReportSummary,
+} from '../../types/jenkins.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * Test report tool handlers.
+ * Target runtime: Node.js (ESM).
+ * Async pattern: async/await.
+ */
+
+export interface TestReportArgs {
+  fullName: string;
+  buildNumber: number;
+  onlyFailures?: boolean;
+  offset?: number;
+  limit?: number;
+  stackTraceLines?: number;
+}
+
+export interface FlakyTestsArgs {
+  fullName: string;
+  builds?: number;
+  limit?: number;
+}
+
+const DEFAULT_TEST_CASE_LIMIT = 50;
+export const MAX_TEST_CASE_LIMIT = 500;
+const DEFAULT_FLAKY_BUILDS = 10;
+export const MAX_FLAKY_BUILDS = 50;
+const DEFAULT_FLAKY_LIMIT = 50;
+
+/**
+ * Fetch a build's test report with counts and a page of test cases.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {TestReportArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsTestReportSummary>} Counts and paged test cases.
+ */
+export async function handleGetBuildTestReport(
+  client: JenkinsClient,
+  args: TestReportArgs
+): Promise<JenkinsTestReportSummary> {
+  const { buildNumber, stackTraceLines } = args;
+  const offset = args.offset ?? 0;
+  const limit = args.limit ?? DEFAULT_TEST_CASE_LIMIT;
+
+  const report = await client.getBuildTestReport(args.fullName, buildNumber);
+  if (!report) {
+    throw new ValidationError(
+      `No test report found for ${args.fullName} #${buildNumber}; the build published no test results`
+    );
+  }
+
+  const allCases = flattenTestCases(report, stackTraceLines);
+  const cases = args.onlyFailures
+    ? allCases.filter((testCase) => isFailedStatus(testCase.status))
+    : allCases;
+
+  return {
+    ...countTestResults(report),
+    duration: report.duration,
+    cases: cases.slice(offset, offset + limit),
+    matchingCases: cases.length,
+    offset,
+    hasMore: offset + limit < cases.length,
+  };
+}
+
+/**
+ * Find tests that flip between pass and fail across the last N completed builds of a job.
+ * @param {JenkinsClient} client - Jenkins API client.
+ * @param {FlakyTestsArgs} args - Tool arguments.
+ * @returns {Promise<JenkinsFlakyTestReport>} Flaky tests with failure rates and build numbers.
+ */
+export async function handleFindFlakyTests(
+  client: JenkinsClient,
+  args: FlakyTestsArgs
+): Promise<JenkinsFlakyTestReport> {
+  const buildCount = args.builds ?? DEFAULT_FLAKY_BUILDS;
+  const limit = args.limit ?? DEFAULT_FLAKY_LIMIT;
+
+  const item = await client.getItem(args.fullName);
+  const buildNumbers = (item.builds ?? [])
+    .filter((build) => !build.building)
+    .map((build) => build.number)
+    .sort((a, b) => b - a)
+    .slice(0, buildCount);
+
+  const runs: Array<{ buildNumber: number; cases: JenkinsTestCaseResult[] }> = [];
+  const buildsWithoutReport: number[] = [];
+  for (const buildNumber of buildNumbers) {
+    const report = await client.getBuildTestReport(args.fullName, buildNumber);
+    if (!report) {
+      buildsWithoutReport.push(buildNumber);
+      continue;
+    }
+    runs.push({ buildNumber, cases: flattenTestCases(report, 0) });
+  }
+
+  return {
+    fullName: args.fullName,
+    buildsAnalyzed: runs.map((run) => run.buildNumber),
+    buildsWithoutReport,
+    flakyTests: detectFlakyTests(runs).slice(0, limit),
+  };
+}
@@ -4,7 +4,13 @@
  * Target runtime: Node.js (ESM).
  */
 
+export type { ToolContext } from './context.js';
 export type { ToolDefinition } from './definitions.js';
 export { tools } from './definitions.js';
-export type { ToolHandler } from './registry.js';
+export type { JenkinsErrorType, NotFoundLookup } from './errors.js';
+export { getJenkinsErrorType, toMcpError } from './errors.js';
+export { getEnabledTools, getToolDisabledReason, getUnknownPolicyTools } from './policy.js';
+export type { ToolHandler, ToolHandlers } from './registry.js';
 export { executeTool, getToolRegistry } from './registry.js';
+export type { ToolArgs, ToolName } from './schemas.js';
+export { formatValidationError, toolInputSchemas, toolOutputSchemas } from './schemas.js';
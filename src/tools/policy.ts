@@ -0,0 +1,49 @@
+/**
+ * Tool exposure policy (read-only mode and allow/deny lists).
+ * Target runtime: Node.js (ESM).
+ */
+
+import type { ToolPolicy } from '../types/jenkins.js';
+import { type ToolDefinition, tools } from './definitions.js';
+
+/**
+ * Explain why a tool is disabled by the policy.
+ * @param {ToolDefinition} tool - Tool definition.
+ * @param {ToolPolicy} policy - Tool policy.
+ * @returns {string | undefined} Reason, or undefined when the tool is enabled.
+ */
+export function getToolDisabledReason(
+  tool: ToolDefinition,
+  policy: ToolPolicy = {}
+): string | undefined {
+  if (policy.deny?.includes(tool.name)) {
+    return 'it is on the tool deny list';
+  }
+  if (policy.allow && !policy.allow.includes(tool.name)) {
+    return 'it is not on the tool allow list';
+  }
+  if (policy.readOnly && !tool.annotations.readOnlyHint) {
+    return 'it modifies Jenkins and read-only mode is enabled';
+  }
+  return undefined;
+}
+
+/**
+ * Get the tool definitions enabled by the policy.
+ * @param {ToolPolicy} [policy] - Tool policy.
+ * @returns {ToolDefinition[]} Enabled tools.
+ */
+export function getEnabledTools(policy: ToolPolicy = {}): ToolDefinition[] {
+  return tools.filter((tool) => getToolDisabledReason(tool, policy) === undefined);
+}
+
+/**
+ * Find tool names in the policy lists that do not match any tool.
+ * @param {ToolPolicy} [policy] - Tool policy.
+ * @returns {string[]} Unknown tool names.
+ */
+export function getUnknownPolicyTools(policy: ToolPolicy = {}): string[] {
+  const known = new Set(tools.map((tool) => tool.name));
+  const listed = [...(policy.allow ?? []), ...(policy.deny ?? [])];
+  return [...new Set(listed.filter((name) => !known.has(name)))];
+}
@@ -1,95 +1,261 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { JenkinsInstances } from '../client/instances.js';
 import type { JenkinsClient } from '../client/jenkins.js';
-import type { JenkinsBuild, JenkinsItem, JenkinsNode } from '../types/jenkins.js';
+import { splitFullName } from '../client/paths.js';
+import type {
+  JenkinsArtifact,
+  JenkinsArtifactContent,
+  JenkinsBuild,
+  JenkinsBuildCauseNode,
+  JenkinsBuildChanges,
+  JenkinsBuildWaitResult,
+  JenkinsConsoleChunk,
+  JenkinsConsoleSearchResult,
+  JenkinsFlakyTestReport,
+  JenkinsItem,
+  JenkinsItemPage,
+  JenkinsJobConfigSummary,
+  JenkinsLabelLoad,
+  JenkinsNode,
+  JenkinsNodeStats,
+  JenkinsPipelineRun,
+  JenkinsPipelineStageLog,
+  JenkinsRunningBuild,
+  JenkinsTestReportSummary,
+  ToolPolicy,
+} from '../types/jenkins.js';
 import type { Logger } from '../utils/logger.js';
-import { isPlainObject } from '../utils/validation.js';
+import { isPlainObject, normalizeOptionalString } from '../utils/validation.js';
+import type { ToolContext } from './context.js';
+import { tools } from './definitions.js';
+import { type NotFoundLookup, toMcpError } from './errors.js';
+import { handleBuildAndWait } from './handlers/build-and-wait.js';
 import {
   handleGetBuild,
+  handleGetBuildArtifact,
+  handleGetBuildConsoleChunk,
   handleGetBuildConsoleOutput,
   handleGetRunningBuilds,
+  handleListBuildArtifacts,
+  handleSearchBuildConsole,
   handleStopBuild,
 } from './handlers/builds.js';
+import { handleGetBuildCauses } from './handlers/causes.js';
+import { handleGetBuildChanges } from './handlers/changes.js';
+import { handleListInstances } from './handlers/instances.js';
 import {
   handleBuildItem,
+  handleCopyItem,
+  handleCreateItem,
+  handleDeleteItem,
   handleGetAllItems,
   handleGetItem,
   handleGetItemConfig,
+  handleGetItemConfigSummary,
   handleQueryItems,
+  handleRenameItem,
+  handleUpdateItemConfig,
 } from './handlers/items.js';
-import { handleGetAllNodes, handleGetNode, handleGetNodeConfig } from './handlers/nodes.js';
+import {
+  handleCreateNodeFromXml,
+  handleDeleteNode,
+  handleDisconnectNode,
+  handleGetAllNodes,
+  handleGetLabelLoad,
+  handleGetNode,
+  handleGetNodeConfig,
+  handleGetNodeStats,
+  handleLaunchNodeAgent,
+  handleSetNodeOffline,
+  handleSetNodeOnline,
+} from './handlers/nodes.js';
+import { handleGetPipelineStageLog, handleGetPipelineStages } from './handlers/pipelines.js';
 import {
   handleCancelQueueItem,
   handleGetAllQueueItems,
   handleGetQueueItem,
 } from './handlers/queue.js';
+import { handleFindFlakyTests, handleGetBuildTestReport } from './handlers/tests.js';
+import { getToolDisabledReason } from './policy.js';
+import {
+  formatValidationError,
+  type ToolArgs,
+  type ToolName,
+  toolInputSchemas,
+} from './schemas.js';
 
 /**
  * Tool handler signature.
+ * The client belongs to the instance selected by the `instance` argument, and the arguments
+ * have been validated against the tool's input schema.
  */
-export type ToolHandler = (
+export type ToolHandler<Args = Record<string, unknown>> = (
   client: JenkinsClient,
-  args: Record<string, unknown>
+  args: Args,
+  instances: JenkinsInstances,
+  context: ToolContext
 ) => Promise<unknown>;
 
+/**
+ * Handlers keyed by tool name, each typed by the output of its input schema.
+ */
+export type ToolHandlers = { [Name in ToolName]: ToolHandler<ToolArgs<Name>> };
+
 /**
  * Tool registry mapping tool names to handlers.
  */
-const registry: Record<string, ToolHandler> = {
-  get_all_items: async (client: JenkinsClient): Promise<JenkinsItem[]> => handleGetAllItems(client),
+const registry: ToolHandlers = {
+  list_instances: async (_client, _args, instances) => handleListInstances(instances),
+
+  get_all_items: async (client: JenkinsClient, args): Promise<JenkinsItemPage> =>
+    handleGetAllItems(client, args),
   get_item: async (client: JenkinsClient, args): Promise<JenkinsItem> =>
-    handleGetItem(client, args as any),
+    handleGetItem(client, args),
   get_item_config: async (client: JenkinsClient, args): Promise<string> =>
-    handleGetItemConfig(client, args as any),
-  query_items: async (client: JenkinsClient, args) => handleQueryItems(client, args as any),
-  build_item: async (client: JenkinsClient, args): Promise<number> =>
-    handleBuildItem(client, args as any),
+    handleGetItemConfig(client, args),
+  get_item_config_summary: async (client: JenkinsClient, args): Promise<JenkinsJobConfigSummary> =>
+    handleGetItemConfigSummary(client, args),
+  query_items: async (client: JenkinsClient, args): Promise<JenkinsItemPage> =>
+    handleQueryItems(client, args),
+  build_item: async (client: JenkinsClient, args): Promise<number> => handleBuildItem(client, args),
+  build_and_wait: async (
+    client: JenkinsClient,
+    args,
+    _instances,
+    context
+  ): Promise<JenkinsBuildWaitResult> => handleBuildAndWait(client, args, context),
+  create_item: async (client: JenkinsClient, args) => handleCreateItem(client, args),
+  update_item_config: async (client: JenkinsClient, args) => handleUpdateItemConfig(client, args),
+  copy_item: async (client: JenkinsClient, args) => handleCopyItem(client, args),
+  rename_item: async (client: JenkinsClient, args) => handleRenameItem(client, args),
+  delete_item: async (client: JenkinsClient, args) => handleDeleteItem(client, args),
 
   get_all_nodes: async (client: JenkinsClient): Promise<JenkinsNode[]> => handleGetAllNodes(client),
   get_node: async (client: JenkinsClient, args): Promise<JenkinsNode> =>
-    handleGetNode(client, args as any),
+    handleGetNode(client, args),
   get_node_config: async (client: JenkinsClient, args): Promise<string> =>
-    handleGetNodeConfig(client, args as any),
+    handleGetNodeConfig(client, args),
+  get_node_stats: async (client: JenkinsClient, args): Promise<JenkinsNodeStats[]> =>
+    handleGetNodeStats(client, args),
+  get_label_load: async (client: JenkinsClient, args): Promise<JenkinsLabelLoad> =>
+    handleGetLabelLoad(client, args),
+  set_node_offline: async (client: JenkinsClient, args) => handleSetNodeOffline(client, args),
+  set_node_online: async (client: JenkinsClient, args) => handleSetNodeOnline(client, args),
+  launch_node_agent: async (client: JenkinsClient, args) => handleLaunchNodeAgent(client, args),
+  disconnect_node: async (client: JenkinsClient, args) => handleDisconnectNode(client, args),
+  create_node_from_xml: async (client: JenkinsClient, args) =>
+    handleCreateNodeFromXml(client, args),
+  delete_node: async (client: JenkinsClient, args) => handleDeleteNode(client, args),
 
   get_all_queue_items: async (client: JenkinsClient) => handleGetAllQueueItems(client),
-  get_queue_item: async (client: JenkinsClient, args) => handleGetQueueItem(client, args as any),
-  cancel_queue_item: async (client: JenkinsClient, args) =>
-    handleCancelQueueItem(client, args as any),
+  get_queue_item: async (client: JenkinsClient, args) => handleGetQueueItem(client, args),
+  cancel_queue_item: async (client: JenkinsClient, args) => handleCancelQueueItem(client, args),
 
   get_build: async (client: JenkinsClient, args): Promise<JenkinsBuild> =>
-    handleGetBuild(client, args as any),
+    handleGetBuild(client, args),
   get_build_console_output: async (client: JenkinsClient, args): Promise<string> =>
-    handleGetBuildConsoleOutput(client, args as any),
-  get_running_builds: async (client: JenkinsClient): Promise<JenkinsBuild[]> =>
-    handleGetRunningBuilds(client),
-  stop_build: async (client: JenkinsClient, args) => handleStopBuild(client, args as any),
+    handleGetBuildConsoleOutput(client, args),
+  get_build_console_chunk: async (client: JenkinsClient, args): Promise<JenkinsConsoleChunk> =>
+    handleGetBuildConsoleChunk(client, args),
+  search_build_console: async (client: JenkinsClient, args): Promise<JenkinsConsoleSearchResult> =>
+    handleSearchBuildConsole(client, args),
+  get_running_builds: async (client: JenkinsClient, args): Promise<JenkinsRunningBuild[]> =>
+    handleGetRunningBuilds(client, args),
+  stop_build: async (client: JenkinsClient, args) => handleStopBuild(client, args),
+  list_build_artifacts: async (client: JenkinsClient, args): Promise<JenkinsArtifact[]> =>
+    handleListBuildArtifacts(client, args),
+  get_build_artifact: async (client: JenkinsClient, args): Promise<JenkinsArtifactContent> =>
+    handleGetBuildArtifact(client, args),
+  get_build_changes: async (client: JenkinsClient, args): Promise<JenkinsBuildChanges> =>
+    handleGetBuildChanges(client, args),
+  get_build_causes: async (client: JenkinsClient, args): Promise<JenkinsBuildCauseNode> =>
+    handleGetBuildCauses(client, args),
+
+  get_build_test_report: async (client: JenkinsClient, args): Promise<JenkinsTestReportSummary> =>
+    handleGetBuildTestReport(client, args),
+  find_flaky_tests: async (client: JenkinsClient, args): Promise<JenkinsFlakyTestReport> =>
+    handleFindFlakyTests(client, args),
+
+  get_pipeline_stages: async (client: JenkinsClient, args): Promise<JenkinsPipelineRun> =>
+    handleGetPipelineStages(client, args),
+  get_pipeline_stage_log: async (client: JenkinsClient, args): Promise<JenkinsPipelineStageLog> =>
+    handleGetPipelineStageLog(client, args),
 };
 
 /**
  * Execute a tool with runtime validation and consistent error mapping.
- * @param {JenkinsClient} client - Jenkins API client.
+ * @param {JenkinsInstances} instances - Configured Jenkins instances.
  * @param {string} toolName - Tool name.
  * @param {Record<string, unknown>} args - Tool arguments.
  * @param {Logger} [logger] - Optional logger for diagnostics.
+ * @param {ToolPolicy} [policy] - Optional tool policy; disabled tools are refused.
+ * @param {ToolContext} [context] - Abort signal and progress reporter of the request.
  * @returns {Promise<unknown>} Tool result.
  */
 export async function executeTool(
-  client: JenkinsClient,
+  instances: JenkinsInstances,
   toolName: string,
   args: Record<string, unknown>,
-  logger?: Logger
+  logger?: Logger,
+  policy?: ToolPolicy,
+  context: ToolContext = {}
 ): Promise<unknown> {
-  const handler = registry[toolName];
-
-  if (!handler) {
+  if (!isToolName(toolName)) {
     throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
   }
 
+  const definition = tools.find((tool) => tool.name === toolName);
+  const disabledReason = definition ? getToolDisabledReason(definition, policy) : undefined;
+  if (disabledReason) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Tool ${toolName} is disabled by server configuration: ${disabledReason}`
+    );
+  }
+
   if (!isPlainObject(args)) {
     throw new McpError(ErrorCode.InvalidParams, 'Arguments must be an object');
   }
 
+  if (args.instance !== undefined && typeof args.instance !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'instance must be a string');
+  }
+
+  const instanceName = normalizeOptionalString(args.instance);
+  let client: JenkinsClient;
   try {
-    return await handler(client, args);
+    client = instances.get(instanceName);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown instance';
+    throw new McpError(ErrorCode.InvalidParams, message);
+  }
+
+  const instanceDisabledReason = definition
+    ? getToolDisabledReason(definition, instances.getToolPolicy(instanceName))
+    : undefined;
+  if (instanceDisabledReason) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Tool ${toolName} is disabled for instance ${instanceName ?? instances.getDefaultName()}: ${instanceDisabledReason}`
+    );
+  }
+
+  const parsed = toolInputSchemas[toolName].safeParse(args);
+  if (!parsed.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for tool ${toolName}: ${formatValidationError(parsed.error)}`,
+      {
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.map(String).join('.'),
+          message: issue.message,
+        })),
+      }
+    );
+  }
+
+  try {
+    return await callHandler(toolName, client, parsed.data, instances, context);
   } catch (error) {
     if (error instanceof McpError) {
       throw error;
@@ -98,18 +264,58 @@ export async function executeTool(
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger?.error('Tool execution failed', { toolName, message });
 
-    if (message.toLowerCase().includes('required') || message.toLowerCase().includes('invalid')) {
-      throw new McpError(ErrorCode.InvalidParams, message);
-    }
+    throw await toMcpError(error, `Failed to execute tool ${toolName}`, {
+      client,
+      ...getNotFoundItems(toolName, args),
+      nodeName: args.nodeName,
+    });
+  }
+}
 
-    throw new McpError(ErrorCode.InternalError, `Failed to execute tool ${toolName}: ${message}`);
+/**
+ * Items a 404 most likely refers to. A new item from create_item or copy_item is supposed not
+ * to exist yet, so its parent folder (and the copy source) are checked instead.
+ */
+function getNotFoundItems(
+  toolName: ToolName,
+  args: Record<string, unknown>
+): Pick<NotFoundLookup, 'requiredItems' | 'fullName'> {
+  switch (toolName) {
+    case 'create_item':
+      return { requiredItems: [parentFolder(args.fullName)] };
+    case 'copy_item':
+      return { requiredItems: [args.sourceFullName, parentFolder(args.fullName)] };
+    case 'get_all_items':
+    case 'query_items':
+      return { fullName: args.folder };
+    default:
+      return { fullName: args.fullName };
   }
 }
 
+function parentFolder(fullName: unknown): string | undefined {
+  return typeof fullName === 'string' ? splitFullName(fullName.trim()).parent : undefined;
+}
+
+function isToolName(name: string): name is ToolName {
+  return Object.hasOwn(registry, name);
+}
+
+function callHandler<Name extends ToolName>(
+  name: Name,
+  client: JenkinsClient,
+  args: ToolArgs<Name>,
+  instances: JenkinsInstances,
+  context: ToolContext
+): Promise<unknown> {
+  const handler: ToolHandler<ToolArgs<Name>> = registry[name];
+  return handler(client, args, instances, context);
+}
+
 /**
  * Get tool registry for inspection/testing.
- * @returns {Record<string, ToolHandler>} Registry map.
+ * @returns {ToolHandlers} Registry map.
  */
-export function getToolRegistry(): Record<string, ToolHandler> {
+export function getToolRegistry(): ToolHandlers {
   return { ...registry };
 }
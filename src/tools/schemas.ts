@@ -0,0 +1,400 @@
+import { z } from 'zod';
+import {
+  MAX_CONSOLE_TAIL_BYTES,
+  MAX_POLL_INTERVAL_SECONDS,
+  MAX_TIMEOUT_SECONDS,
+} from './handlers/build-and-wait.js';
+import {
+  MAX_ARTIFACT_BYTES,
+  MAX_CONSOLE_CHUNK_BYTES,
+  MAX_SEARCH_CONTEXT_LINES,
+  MAX_SEARCH_MATCHES,
+} from './handlers/builds.js';
+import { MAX_UPSTREAM_DEPTH } from './handlers/causes.js';
+import { MAX_ITEM_DEPTH, MAX_ITEM_PAGE_SIZE } from './handlers/items.js';
+import { MAX_FLAKY_BUILDS, MAX_TEST_CASE_LIMIT } from './handlers/tests.js';
+
+/**
+ * Tool input and output schemas.
+ * Target runtime: Node.js (ESM).
+ *
+ * Each tool has one Zod schema that generates its advertised JSON Schema, validates and
+ * coerces the arguments before the handler runs, and types the handler arguments.
+ * Numeric and boolean strings (e.g. "42", "true") are coerced, since some clients send them.
+ *
+ * Error messages are phrased to follow the field name ("buildNumber must be a positive integer").
+ */
+
+function coerceNumber(value: unknown): unknown {
+  if (typeof value !== 'string' || value.trim() === '') return value;
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+function coerceBoolean(value: unknown): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+function requiredString(description: string) {
+  return z
+    .string({ error: (issue) => (issue.input === undefined ? 'is required' : 'must be a string') })
+    .refine((value) => value.trim() !== '', 'must not be empty')
+    .describe(description);
+}
+
+function optionalString(description: string) {
+  return z.string({ error: 'must be a string' }).optional().describe(description);
+}
+
+function int(minimum: 0 | 1, description: string, maximum?: number) {
+  const kind = minimum === 1 ? 'a positive integer' : 'a non-negative integer';
+  let schema = z
+    .number({ error: (issue) => (issue.input === undefined ? 'is required' : `must be ${kind}`) })
+    .int(`must be ${kind}`)
+    .min(minimum, `must be ${kind}`);
+  if (maximum !== undefined) {
+    schema = schema.max(maximum, `is invalid; must be at most ${maximum}`);
+  }
+  return z.preprocess(coerceNumber, schema).describe(description);
+}
+
+function positiveInt(description: string, maximum?: number) {
+  return int(1, description, maximum);
+}
+
+function optionalPositiveInt(description: string, maximum?: number) {
+  return positiveInt(description, maximum).optional();
+}
+
+function optionalNonNegativeInt(description: string, maximum?: number) {
+  return int(0, description, maximum).optional();
+}
+
+function optionalBoolean(description: string) {
+  return z
+    .preprocess(coerceBoolean, z.boolean({ error: 'must be a boolean' }))
+    .optional()
+    .describe(description);
+}
+
+const instance = optionalString(
+  'Name of the Jenkins instance to use (optional; defaults to the configured default instance)'
+);
+
+/**
+ * Object schema with the `instance` argument shared by every Jenkins tool.
+ */
+function toolInput<Shape extends z.ZodRawShape>(shape: Shape) {
+  return z.object({ ...shape, instance });
+}
+
+const buildNumber = positiveInt('Build number');
+
+function buildInput<Shape extends z.ZodRawShape>(fullNameDescription: string, shape: Shape) {
+  return toolInput({ fullName: requiredString(fullNameDescription), buildNumber, ...shape });
+}
+
+/**
+ * Root folder, depth and paging arguments of the item listing tools.
+ */
+function itemListing(defaultDepth: number) {
+  return {
+    folder: optionalString('Full name of the folder to list (optional; defaults to the root)'),
+    depth: optionalPositiveInt(
+      `Folder levels to include; 1 lists only direct children (default: ${defaultDepth}, max: ${MAX_ITEM_DEPTH})`,
+      MAX_ITEM_DEPTH
+    ),
+    cursor: z
+      .string({ error: 'must be a string' })
+      .regex(/^\d+(:\d+(\.\d+)*)?$/, 'is invalid; pass nextCursor from the previous page')
+      .optional()
+      .describe('nextCursor of the previous page (optional)'),
+    limit: optionalPositiveInt(
+      `Maximum number of items per page (default: 200, max: ${MAX_ITEM_PAGE_SIZE})`,
+      MAX_ITEM_PAGE_SIZE
+    ),
+  };
+}
+
+/**
+ * Build parameters. Numbers and booleans are sent as their string form.
+ */
+const buildParameters = z
+  .record(
+    z.string(),
+    z
+      .union([z.string(), z.number(), z.boolean()], {
+        error: 'must be a string, number or boolean',
+      })
+      .transform(String),
+    { error: 'must be an object of parameter names to values' }
+  )
+  .optional()
+  .describe('Build parameters (optional), e.g. { "BRANCH": "main", "DRY_RUN": true }');
+
+export const toolInputSchemas = {
+  list_instances: z.object({}),
+  get_all_items: toolInput(itemListing(1)),
+  get_item: toolInput({
+    fullName: requiredString('Full name of the item (e.g., "folder/job-name")'),
+  }),
+  get_item_config: toolInput({ fullName: requiredString('Full name of the item') }),
+  get_item_config_summary: toolInput({ fullName: requiredString('Full name of the item') }),
+  query_items: toolInput({
+    classPattern: optionalString('Regex pattern to filter by item class'),
+    fullNamePattern: optionalString('Regex pattern to filter by full name'),
+    colorPattern: optionalString('Regex pattern to filter by build status color'),
+    ...itemListing(MAX_ITEM_DEPTH),
+  }),
+  build_item: toolInput({
+    fullName: requiredString('Full name of the item to build'),
+    parameters: buildParameters,
+  }),
+  build_and_wait: toolInput({
+    fullName: requiredString('Full name of the item to build'),
+    parameters: buildParameters,
+    timeout: optionalPositiveInt(
+      'Seconds to wait before returning status "timed_out" (default: 1800, max: 21600)',
+      MAX_TIMEOUT_SECONDS
+    ),
+    pollInterval: optionalPositiveInt(
+      'Seconds between queue and build checks (default: 5, max: 300)',
+      MAX_POLL_INTERVAL_SECONDS
+    ),
+    consoleTailBytes: optionalPositiveInt(
+      'Bytes of console output to return from the end of the log (default: 16384)',
+      MAX_CONSOLE_TAIL_BYTES
+    ),
+  }),
+  create_item: toolInput({
+    fullName: requiredString('Full name of the new item (e.g., "folder/new-job")'),
+    configXml: requiredString('Item config.xml content'),
+  }),
+  update_item_config: toolInput({
+    fullName: requiredString('Full name of the item'),
+    configXml: requiredString('New config.xml content'),
+  }),
+  copy_item: toolInput({
+    sourceFullName: requiredString('Full name of the item to copy'),
+    fullName: requiredString('Full name of the new item (e.g., "folder/copied-job")'),
+  }),
+  rename_item: toolInput({
+    fullName: requiredString('Full name of the item'),
+    newName: requiredString('New item name, without folder path'),
+  }),
+  delete_item: toolInput({ fullName: requiredString('Full name of the item to delete') }),
+  get_all_nodes: toolInput({}),
+  get_node: toolInput({ nodeName: requiredString('Name of the node') }),
+  get_node_config: toolInput({ nodeName: requiredString('Name of the node') }),
+  get_node_stats: toolInput({
+    nodeName: optionalString('Name of the node (optional; defaults to all nodes)'),
+  }),
+  get_label_load: toolInput({
+    label: requiredString('Label name or expression (e.g., "linux" or "linux&&docker")'),
+  }),
+  set_node_offline: toolInput({
+    nodeName: requiredString('Name of the node'),
+    reason: requiredString('Why the node is taken offline (shown in Jenkins)'),
+  }),
+  set_node_online: toolInput({ nodeName: requiredString('Name of the node') }),
+  launch_node_agent: toolInput({ nodeName: requiredString('Name of the agent node') }),
+  disconnect_node: toolInput({
+    nodeName: requiredString('Name of the agent node'),
+    reason: optionalString('Why the agent is disconnected (shown in Jenkins)'),
+  }),
+  create_node_from_xml: toolInput({
+    nodeName: requiredString('Name of the new agent node'),
+    configXml: requiredString('Node config.xml content (as returned by get_node_config)'),
+  }),
+  delete_node: toolInput({ nodeName: requiredString('Name of the agent node to delete') }),
+  get_all_queue_items: toolInput({}),
+  get_queue_item: toolInput({ queueId: int(0, 'ID of the queue item') }),
+  cancel_queue_item: toolInput({ queueId: int(0, 'ID of the queue item to cancel') }),
+  get_build: buildInput('Full name of the job', {}),
+  get_build_console_output: buildInput('Full name of the job', {}),
+  get_build_console_chunk: buildInput('Full name of the job', {
+    start: optionalNonNegativeInt('Byte offset to read from in offset mode (default: 0)'),
+    mode: z
+      .enum(['offset', 'head', 'tail'], {
+        error: 'is invalid; expected one of: offset, head, tail',
+      })
+      .optional()
+      .describe(
+        'offset reads forward from start, head reads the beginning, tail reads the end (default: offset)'
+      ),
+    maxBytes: optionalPositiveInt(
+      'Maximum number of bytes to return (default: 65536, max: 1048576)',
+      MAX_CONSOLE_CHUNK_BYTES
+    ),
+  }),
+  search_build_console: buildInput('Full name of the job', {
+    pattern: requiredString('Regex pattern tested against each line (e.g., "ERROR|FAILURE")'),
+    before: optionalNonNegativeInt(
+      'Context lines before each match (default: 2, max: 50)',
+      MAX_SEARCH_CONTEXT_LINES
+    ),
+    after: optionalNonNegativeInt(
+      'Context lines after each match (default: 2, max: 50)',
+      MAX_SEARCH_CONTEXT_LINES
+    ),
+    maxMatches: optionalPositiveInt(
+      'Stop after this many matches (default: 20, max: 500)',
+      MAX_SEARCH_MATCHES
+    ),
+    ignoreCase: optionalBoolean('Match case-insensitively (default: false)'),
+  }),
+  get_running_builds: toolInput({
+    node: optionalString('Only builds on this node (display name, case-insensitive)'),
+    jobPattern: optionalString('Regex matched against the job full name (e.g. "^team-a/")'),
+  }),
+  stop_build: toolInput({
+    fullName: requiredString('Full name of the job'),
+    buildNumber: positiveInt('Build number to stop'),
+  }),
+  list_build_artifacts: buildInput('Full name of the job', {
+    withSizes: optionalBoolean(
+      'Resolve artifact sizes (one HEAD request per artifact; default: false)'
+    ),
+  }),
+  get_build_artifact: buildInput('Full name of the job', {
+    relativePath: requiredString(
+      'Artifact path as returned by list_build_artifacts (e.g., "reports/coverage.xml")'
+    ),
+    maxBytes: optionalPositiveInt(
+      'Size cap in bytes (default: 262144, max: 5242880)',
+      MAX_ARTIFACT_BYTES
+    ),
+  }),
+  get_build_changes: buildInput('Full name of the job', {
+    since: z
+      .union([z.literal('lastSuccessfulBuild'), positiveInt('Build number')], {
+        error: 'must be a positive integer or "lastSuccessfulBuild"',
+      })
+      .optional()
+      .describe(
+        'Aggregate changes of all builds after this build number (exclusive), ' +
+          'or "lastSuccessfulBuild" (max 50 builds)'
+      ),
+  }),
+  get_build_causes: buildInput('Full name of the job', {
+    followUpstream: optionalBoolean(
+      'Recursively follow upstream causes to the root (default: false)'
+    ),
+    maxDepth: optionalPositiveInt(
+      'Maximum upstream levels to follow (default: 10, max: 25)',
+      MAX_UPSTREAM_DEPTH
+    ),
+    includeDownstream: optionalBoolean(
+      'List the downstream builds this build triggered (default: true)'
+    ),
+  }),
+  get_build_test_report: buildInput('Full name of the job', {
+    onlyFailures: optionalBoolean('Only return failed test cases (default: false)'),
+    offset: optionalNonNegativeInt('Index of the first test case to return (default: 0)'),
+    limit: optionalPositiveInt(
+      'Maximum number of test cases to return (default: 50, max: 500)',
+      MAX_TEST_CASE_LIMIT
+    ),
+    stackTraceLines: optionalNonNegativeInt(
+      'Stack trace lines kept per failed case; 0 omits traces (default: 20)'
+    ),
+  }),
+  find_flaky_tests: toolInput({
+    fullName: requiredString('Full name of the job'),
+    builds: optionalPositiveInt(
+      'Number of recent completed builds to analyze (default: 10, max: 50)',
+      MAX_FLAKY_BUILDS
+    ),
+    limit: optionalPositiveInt('Maximum number of flaky tests to return (default: 50)'),
+  }),
+  get_pipeline_stages: buildInput('Full name of the pipeline job', {}),
+  get_pipeline_stage_log: buildInput('Full name of the pipeline job', {
+    stage: optionalString('Stage id or name (optional; defaults to the first failing stage)'),
+  }),
+} satisfies Record<string, z.ZodObject>;
+
+/**
+ * Name of a tool with an input schema.
+ */
+export type ToolName = keyof typeof toolInputSchemas;
+
+/**
+ * Validated and coerced arguments of a tool.
+ */
+export type ToolArgs<Name extends ToolName> = z.output<(typeof toolInputSchemas)[Name]>;
+
+/**
+ * Output schemas of the tools that return `structuredContent`.
+ */
+export const toolOutputSchemas: Partial<Record<ToolName, z.ZodObject>> = {
+  build_and_wait: z.object({
+    status: z.enum(['completed', 'cancelled', 'timed_out']),
+    fullName: z.string(),
+    queueId: z.number(),
+    buildNumber: z.number().optional(),
+    url: z.string().optional(),
+    result: z.string().nullable().optional(),
+    building: z.boolean().optional(),
+    durationMs: z.number().optional(),
+    why: z.string().optional(),
+    waitedMs: z.number(),
+    consoleTail: z.object({ text: z.string(), truncated: z.boolean() }).optional(),
+  }),
+  get_build_console_chunk: z.object({
+    text: z.string(),
+    start: z.number(),
+    nextOffset: z.number(),
+    hasMoreData: z.boolean(),
+    truncated: z.boolean(),
+  }),
+  search_build_console: z.object({
+    pattern: z.string(),
+    matches: z.array(
+      z.object({
+        lineNumber: z.number(),
+        line: z.string(),
+        before: z.array(z.string()),
+        after: z.array(z.string()),
+      })
+    ),
+    linesScanned: z.number(),
+    limitReached: z.boolean(),
+  }),
+};
+
+/**
+ * Generate the JSON Schema advertised for a tool input or output schema.
+ * @param {z.ZodType} schema - Zod schema.
+ * @param {'input' | 'output'} io - Describe the accepted input or the produced output.
+ * @returns {Record<string, unknown>} JSON Schema object.
+ */
+export function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): Record<string, unknown> {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    override: ({ jsonSchema }) => {
+      // z.number().int() adds the safe integer range, which only adds noise for clients.
+      if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum;
+      if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum;
+    },
+  });
+  return jsonSchema;
+}
+
+/**
+ * Format validation issues as one message, one clause per field.
+ * @param {z.ZodError} error - Validation error.
+ * @returns {string} Message such as "fullName is required; buildNumber must be a positive integer".
+ */
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const path = issue.path.map(String).join('.');
+      if (!path) return issue.message;
+      return /^(is|must) /.test(issue.message)
+        ? `${path} ${issue.message}`
+        : `${path}: ${issue.message}`;
+    })
+    .join('; ');
+}
@@ -7,6 +7,107 @@ export interface JenkinsConfig {
   password?: string;
   timeout?: number;
   verifySSL?: boolean;
+  /** PEM-encoded CA certificates trusted in addition to the system store */
+  ca?: string;
+  /** Retries for transient failures (default 3; 0 disables) */
+  maxRetries?: number;
+  /** Consecutive failed requests that open the circuit breaker (default 5; 0 disables) */
+  circuitBreakerThreshold?: number;
+  /** Seconds the circuit breaker stays open (default 30) */
+  circuitBreakerCooldown?: number;
+}
+
+/**
+ * Configuration of a named Jenkins instance
+ */
+export interface JenkinsInstanceConfig extends JenkinsConfig {
+  name: string;
+  /** Extra restrictions applied to calls against this instance */
+  toolPolicy?: ToolPolicy;
+}
+
+/**
+ * Server configuration: Jenkins instances and tool policy
+ */
+export interface JenkinsServerConfig {
+  instances: JenkinsInstanceConfig[];
+  defaultInstance: string;
+  toolPolicy: ToolPolicy;
+  subscriptions: SubscriptionConfig;
+}
+
+/**
+ * Poll intervals (seconds) for resource subscriptions
+ */
+export interface SubscriptionConfig {
+  /** How often a subscribed running build is checked */
+  buildPollInterval: number;
+  /** How often a subscribed job is checked for new or finished builds */
+  jobPollInterval: number;
+}
+
+/**
+ * How MCP clients connect to the server
+ */
+export type TransportConfig =
+  | { type: 'stdio' }
+  | {
+      type: 'http';
+      host: string;
+      port: number;
+      /** Bearer token required from clients; unset disables the check */
+      authToken?: string;
+      /** Host header names accepted on /mcp; defaults to the loopback names on a loopback host */
+      allowedHosts?: string[];
+      /** Browser origins accepted on /mcp in addition to those of the allowed hosts */
+      allowedOrigins?: string[];
+      /** Seconds without requests after which a session is closed */
+      sessionIdleTimeout: number;
+    };
+
+/**
+ * Credential in a config file: inline value, environment variable or file path
+ */
+export type JenkinsCredentialSource = string | { env: string } | { file: string };
+
+/**
+ * Named connection profile in a config file
+ */
+export interface JenkinsProfileConfig {
+  url?: string;
+  username?: JenkinsCredentialSource;
+  password?: JenkinsCredentialSource;
+  timeout?: number;
+  tls?: {
+    verify?: boolean;
+    caFile?: string;
+  };
+  maxRetries?: number;
+  circuitBreaker?: {
+    threshold?: number;
+    /** Seconds */
+    cooldown?: number;
+  };
+  toolPolicy?: ToolPolicy;
+}
+
+/**
+ * Config file contents (JSON or YAML)
+ */
+export interface JenkinsConfigFile {
+  defaultProfile?: string;
+  toolPolicy?: ToolPolicy;
+  subscriptions?: Partial<SubscriptionConfig>;
+  profiles: Record<string, JenkinsProfileConfig>;
+}
+
+/**
+ * Restrictions on which tools the server exposes
+ */
+export interface ToolPolicy {
+  readOnly?: boolean;
+  allow?: string[];
+  deny?: string[];
 }
 
 /**
@@ -25,6 +126,19 @@ export interface JenkinsItem {
   lastFailedBuild?: JenkinsBuild;
 }
 
+/**
+ * One page of an item listing.
+ * Pass nextCursor back as cursor to get the next page.
+ */
+export interface JenkinsItemPage {
+  items: JenkinsItem[];
+  /** Index of the first item on this page */
+  start: number;
+  /** Index after the last item on this page */
+  end: number;
+  nextCursor?: string;
+}
+
 /**
  * Jenkins Build
  */
@@ -38,6 +152,130 @@ export interface JenkinsBuild {
   timestamp?: number;
   fullDisplayName?: string;
   displayName?: string;
+  artifacts?: JenkinsArtifact[];
+  changeSet?: JenkinsChangeSet;
+  changeSets?: JenkinsChangeSet[];
+  culprits?: Array<{ fullName: string }>;
+  actions?: JenkinsBuildAction[];
+}
+
+/**
+ * Jenkins build action (only the fields used for cause analysis)
+ */
+export interface JenkinsBuildAction {
+  _class?: string;
+  causes?: JenkinsCause[];
+  downstreamBuilds?: Array<{ jobFullName: string; buildNumber?: number | null }>;
+}
+
+/**
+ * Jenkins build cause (user, timer, SCM, upstream, remote, ...)
+ */
+export interface JenkinsCause {
+  _class?: string;
+  shortDescription?: string;
+  userId?: string | null;
+  userName?: string | null;
+  upstreamProject?: string;
+  upstreamBuild?: number;
+  upstreamUrl?: string;
+  addr?: string;
+  note?: string | null;
+}
+
+/**
+ * Normalized build cause
+ */
+export interface JenkinsBuildCause {
+  type: 'user' | 'timer' | 'scm' | 'upstream' | 'remote' | 'other';
+  description?: string;
+  userId?: string;
+  userName?: string;
+  upstreamProject?: string;
+  upstreamBuild?: number;
+  remoteAddr?: string;
+  note?: string;
+}
+
+/**
+ * Build with its causes, upstream chain and triggered downstream builds
+ */
+export interface JenkinsBuildCauseNode {
+  fullName: string;
+  buildNumber: number;
+  url?: string;
+  result?: string | null;
+  causes: JenkinsBuildCause[];
+  upstream?: JenkinsBuildCauseNode[];
+  downstream?: Array<{ fullName: string; buildNumber?: number }>;
+}
+
+/**
+ * Jenkins SCM change set (one per SCM checkout)
+ */
+export interface JenkinsChangeSet {
+  kind?: string | null;
+  items?: JenkinsChangeSetItem[];
+}
+
+/**
+ * Jenkins SCM change set entry (commit)
+ */
+export interface JenkinsChangeSetItem {
+  commitId?: string;
+  id?: string;
+  author?: { fullName: string };
+  authorEmail?: string;
+  msg?: string;
+  comment?: string;
+  timestamp?: number;
+  affectedPaths?: string[];
+}
+
+/**
+ * Normalized commit with the build and SCM it belongs to
+ */
+export interface JenkinsCommit {
+  buildNumber: number;
+  scm?: string;
+  commitId?: string;
+  author?: string;
+  authorEmail?: string;
+  message?: string;
+  timestamp?: number;
+  affectedPaths: string[];
+}
+
+/**
+ * SCM changes of a build or a range of builds
+ */
+export interface JenkinsBuildChanges {
+  fullName: string;
+  buildNumbers: number[];
+  commits: JenkinsCommit[];
+  culprits: string[];
+}
+
+/**
+ * Jenkins Build Artifact
+ */
+export interface JenkinsArtifact {
+  displayPath?: string;
+  fileName: string;
+  relativePath: string;
+  size?: number;
+}
+
+/**
+ * Content of a build artifact, inline text or base64
+ */
+export interface JenkinsArtifactContent {
+  relativePath: string;
+  size?: number;
+  contentType?: string;
+  encoding?: 'utf8' | 'base64';
+  content?: string;
+  tooLarge: boolean;
 }
 
 /**
@@ -53,6 +291,13 @@ export interface JenkinsQueueItem {
   blocked?: boolean;
   buildable?: boolean;
   stuck?: boolean;
+  cancelled?: boolean;
+  inQueueSince?: number;
+  /** Build started from this item; set once the item leaves the queue */
+  executable?: {
+    number: number;
+    url: string;
+  } | null;
 }
 
 /**
@@ -65,3 +310,370 @@ export interface JenkinsNode {
   offline: boolean;
   temporarilyOffline?: boolean;
 }
+
+/**
+ * Executors, labels, health monitors and offline cause of a Jenkins node
+ */
+export interface JenkinsNodeStats {
+  displayName: string;
+  description?: string;
+  offline: boolean;
+  temporarilyOffline?: boolean;
+  /** Why the node is offline; type is the short OfflineCause class name (e.g. "UserCause") */
+  offlineCause?: { type?: string; reason?: string };
+  executors: { total: number; busy: number; idle: number };
+  /** Labels assigned to the node, without its own name */
+  labels: string[];
+  /** Node monitor data; a monitor is missing when Jenkins has no data for it */
+  monitors: {
+    /** Operating system and CPU (e.g. "Linux (amd64)") */
+    architecture?: string;
+    diskSpace?: { path?: string; freeBytes: number };
+    tempSpace?: { path?: string; freeBytes: number };
+    memory?: {
+      availablePhysicalBytes: number;
+      totalPhysicalBytes: number;
+      availableSwapBytes: number;
+      totalSwapBytes: number;
+    };
+    /** Average agent round-trip time */
+    responseTimeMs?: number;
+    /** Agent clock minus controller clock */
+    clockDifferenceMs?: number;
+  };
+}
+
+/**
+ * Label load averaged by Jenkins over one time window
+ */
+export interface JenkinsLabelLoadWindow {
+  queueLength: number;
+  busyExecutors: number;
+  onlineExecutors: number;
+  availableExecutors: number;
+}
+
+/**
+ * Executor capacity and queue length of a Jenkins label
+ */
+export interface JenkinsLabelLoad {
+  label: string;
+  description?: string;
+  /** True when every node with the label is offline */
+  offline?: boolean;
+  nodes: string[];
+  executors: { total: number; busy: number; idle: number };
+  /** Exponential moving averages kept by Jenkins (10 seconds, 1 minute, 1 hour) */
+  load: {
+    sec10?: JenkinsLabelLoadWindow;
+    min?: JenkinsLabelLoadWindow;
+    hour?: JenkinsLabelLoadWindow;
+  };
+  /** Queued items per online executor over the last hour; undefined without online executors */
+  queuePerExecutor?: number;
+  /** On average over the last hour, items were queued while less than one executor was free */
+  underProvisioned: boolean;
+}
+
+/**
+ * Work running on a Jenkins executor
+ */
+export interface JenkinsRunningBuild {
+  /** build: a whole build; pipeline_step: a node block of a Pipeline holding an agent executor */
+  kind: 'build' | 'pipeline_step';
+  fullName?: string;
+  buildNumber?: number;
+  displayName?: string;
+  url?: string;
+  /** Node display name */
+  node: string;
+  /** Executor number on the node */
+  executor: number;
+  /** Lightweight executor used by Pipeline runs and other tasks that need no executor slot */
+  oneOff: boolean;
+  startedAt?: number;
+  elapsedMs?: number;
+  estimatedDurationMs?: number;
+  estimatedRemainingMs?: number;
+  /** Percent of the estimated duration, as reported by the executor */
+  progress?: number;
+  likelyStuck?: boolean;
+}
+
+/**
+ * Slice of a build console log fetched through progressiveText
+ */
+export interface JenkinsConsoleChunk {
+  text: string;
+  start: number;
+  nextOffset: number;
+  hasMoreData: boolean;
+  truncated: boolean;
+}
+
+/**
+ * Outcome of triggering a build and waiting for it
+ */
+export interface JenkinsBuildWaitResult {
+  /** completed: the build finished; cancelled: the queue item was cancelled; timed_out: still queued or running */
+  status: 'completed' | 'cancelled' | 'timed_out';
+  fullName: string;
+  queueId: number;
+  buildNumber?: number;
+  url?: string;
+  result?: string;
+  building?: boolean;
+  durationMs?: number;
+  /** Why the item was still waiting in the queue */
+  why?: string;
+  waitedMs: number;
+  /** End of the console log of a completed build */
+  consoleTail?: {
+    text: string;
+    truncated: boolean;
+  };
+}
+
+/**
+ * Console line matching a search pattern, with surrounding context
+ */
+export interface JenkinsConsoleMatch {
+  lineNumber: number;
+  line: string;
+  before: string[];
+  after: string[];
+}
+
+/**
+ * Result of a search over build console output
+ */
+export interface JenkinsConsoleSearchResult {
+  pattern: string;
+  matches: JenkinsConsoleMatch[];
+  linesScanned: number;
+  limitReached: boolean;
+}
+
+/**
+ * Jenkins JUnit test case
+ */
+export interface JenkinsTestCase {
+  className: string;
+  name: string;
+  status: string;
+  duration?: number;
+  skipped?: boolean;
+  errorDetails?: string | null;
+  errorStackTrace?: string | null;
+}
+
+/**
+ * Jenkins JUnit test suite
+ */
+export interface JenkinsTestSuite {
+  name: string;
+  duration?: number;
+  cases?: JenkinsTestCase[];
+}
+
+/**
+ * Jenkins test report (testReport/api/json)
+ * Aggregated reports (matrix/multi-module) expose childReports instead of suites.
+ */
+export interface JenkinsTestReport {
+  failCount?: number;
+  passCount?: number;
+  skipCount?: number;
+  totalCount?: number;
+  duration?: number;
+  suites?: JenkinsTestSuite[];
+  childReports?: Array<{
+    child?: { number: number; url: string };
+    result?: JenkinsTestReport;
+  }>;
+}
+
+/**
+ * Flattened test case with its suite
+ */
+export interface JenkinsTestCaseResult {
+  suite: string;
+  className: string;
+  name: string;
+  status: string;
+  duration?: number;
+  errorDetails?: string;
+  errorStackTrace?: string;
+}
+
+/**
+ * Test report counts with a page of test cases
+ */
+export interface JenkinsTestReportSummary {
+  passCount: number;
+  failCount: number;
+  skipCount: number;
+  totalCount: number;
+  duration?: number;
+  cases: JenkinsTestCaseResult[];
+  matchingCases: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+/**
+ * Test that both passed and failed across a range of builds
+ */
+export interface JenkinsFlakyTest {
+  suite: string;
+  className: string;
+  name: string;
+  flips: number;
+  failureRate: number;
+  failedBuilds: number[];
+  passedBuilds: number[];
+}
+
+/**
+ * Flaky test analysis over recent builds of a job
+ */
+export interface JenkinsFlakyTestReport {
+  fullName: string;
+  buildsAnalyzed: number[];
+  buildsWithoutReport: number[];
+  flakyTests: JenkinsFlakyTest[];
+}
+
+/**
+ * Pipeline stage (wfapi/describe)
+ */
+export interface JenkinsPipelineStage {
+  id: string;
+  name: string;
+  status: string;
+  startTimeMillis?: number;
+  durationMillis?: number;
+  pauseDurationMillis?: number;
+  error?: {
+    message?: string;
+    type?: string;
+  };
+}
+
+/**
+ * Pipeline run with its stages (wfapi/describe)
+ */
+export interface JenkinsPipelineRun {
+  id: string;
+  name: string;
+  status: string;
+  startTimeMillis?: number;
+  durationMillis?: number;
+  pauseDurationMillis?: number;
+  stages: JenkinsPipelineStage[];
+}
+
+/**
+ * Pipeline flow node (step) within a stage
+ */
+export interface JenkinsPipelineFlowNode {
+  id: string;
+  name: string;
+  status: string;
+  parameterDescription?: string;
+  startTimeMillis?: number;
+  durationMillis?: number;
+  pauseDurationMillis?: number;
+}
+
+/**
+ * Pipeline stage with its flow nodes (execution/node/<id>/wfapi/describe)
+ */
+export interface JenkinsPipelineStageDetail extends JenkinsPipelineStage {
+  stageFlowNodes: JenkinsPipelineFlowNode[];
+}
+
+/**
+ * Log of a single pipeline flow node (execution/node/<id>/wfapi/log)
+ */
+export interface JenkinsPipelineNodeLog {
+  nodeId: string;
+  nodeStatus?: string;
+  length?: number;
+  hasMore?: boolean;
+  text: string;
+}
+
+/**
+ * Logs of the flow nodes of one pipeline stage
+ */
+export interface JenkinsPipelineStageLog {
+  stage: JenkinsPipelineStage;
+  nodes: Array<JenkinsPipelineFlowNode & { log: string; hasMore: boolean }>;
+}
+
+/**
+ * Parameter definition from a job config
+ */
+export interface JenkinsParameterSummary {
+  type: string;
+  name: string;
+  description?: string;
+  defaultValue?: string | boolean;
+  choices?: string[];
+}
+
+/**
+ * SCM source from a job config
+ */
+export interface JenkinsScmSummary {
+  type: string;
+  urls: string[];
+  branches: string[];
+  credentialsId?: string;
+}
+
+/**
+ * Build trigger from a job config
+ */
+export interface JenkinsTriggerSummary {
+  type: 'cron' | 'scm' | 'upstream' | 'other';
+  className: string;
+  spec?: string;
+  upstreamProjects?: string[];
+  threshold?: string;
+}
+
+/**
+ * Build discarder (log rotation) settings from a job config
+ */
+export interface JenkinsBuildDiscarderSummary {
+  strategy: string;
+  daysToKeep?: number;
+  numToKeep?: number;
+  artifactDaysToKeep?: number;
+  artifactNumToKeep?: number;
+}
+
+/**
+ * Normalized summary of a job config.xml
+ */
+export interface JenkinsJobConfigSummary {
+  type: 'freestyle' | 'pipeline' | 'multibranch' | 'folder' | 'matrix' | 'maven' | 'other';
+  rootElement: string;
+  description?: string;
+  disabled?: boolean;
+  assignedNode?: string;
+  parameters: JenkinsParameterSummary[];
+  scm: JenkinsScmSummary[];
+  triggers: JenkinsTriggerSummary[];
+  pipeline?: {
+    definition?: string;
+    script?: string;
+    scriptPath?: string;
+    sandbox?: boolean;
+    lightweight?: boolean;
+  };
+  buildDiscarder?: JenkinsBuildDiscarderSummary;
+  other: Record<string, unknown>;
+}
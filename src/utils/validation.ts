@@ -3,34 +3,14 @@
  * Target runtime: Node.js (ESM).
  */
 
-export function assertNonEmptyString(value: unknown, label: string): asserts value is string {
-  if (typeof value !== 'string' || value.trim() === '') {
-    throw new Error(`${label} is required and must be a non-empty string`);
-  }
-}
-
-export function assertPositiveInt(value: unknown, label: string): number {
-  if (
-    typeof value !== 'number' ||
-    !Number.isFinite(value) ||
-    !Number.isInteger(value) ||
-    value <= 0
-  ) {
-    throw new Error(`${label} must be a positive integer`);
-  }
-  return value;
-}
-
-export function assertNonNegativeInt(value: unknown, label: string): number {
-  if (
-    typeof value !== 'number' ||
-    !Number.isFinite(value) ||
-    !Number.isInteger(value) ||
-    value < 0
-  ) {
-    throw new Error(`${label} must be a non-negative integer`);
+/**
+ * Invalid tool or prompt arguments. Reported to MCP clients as InvalidParams.
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
   }
-  return value;
 }
 
 export function normalizeOptionalString(value: unknown): string | undefined {
@@ -68,3 +48,63 @@ export function parsePositiveInt(
 
   return parsed;
 }
+
+/**
+ * Parse a non-negative integer from a string with fallback.
+ * @param {string | undefined} value - Raw string value.
+ * @param {number} fallback - Default value when not provided.
+ * @param {string} label - Name for error messages.
+ * @returns {number} Validated non-negative integer.
+ * @throws {Error} If provided value is not a non-negative integer.
+ */
+export function parseNonNegativeInt(
+  value: string | undefined,
+  fallback: number,
+  label: string
+): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${label} must be a non-negative integer`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse a boolean flag from a string with fallback.
+ * Accepts true/false, 1/0 and yes/no (case-insensitive).
+ * @param {string | undefined} value - Raw string value.
+ * @param {boolean} fallback - Default value when not provided.
+ * @param {string} label - Name for error messages.
+ * @returns {boolean} Parsed flag.
+ * @throws {Error} If provided value is not a recognized boolean.
+ */
+export function parseBoolean(value: string | undefined, fallback: boolean, label: string): boolean {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+
+  throw new Error(`${label} must be a boolean (true/false)`);
+}
+
+/**
+ * Parse a comma-separated list, dropping empty entries.
+ * @param {string | undefined} value - Raw string value.
+ * @returns {string[] | undefined} Trimmed entries, or undefined when not provided.
+ */
+export function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  return entries.length > 0 ? entries : undefined;
+}